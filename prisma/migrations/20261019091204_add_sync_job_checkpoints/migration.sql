@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "SyncJob" ADD COLUMN "checkpoint" TEXT;
+ALTER TABLE "SyncJob" ADD COLUMN "currentBand" INTEGER;
+ALTER TABLE "SyncJob" ADD COLUMN "reposDone" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "SyncJob" ADD COLUMN "usersDone" INTEGER NOT NULL DEFAULT 0;
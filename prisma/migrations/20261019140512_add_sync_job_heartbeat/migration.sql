@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SyncJob" ADD COLUMN "cancelRequestedAt" DATETIME;
+ALTER TABLE "SyncJob" ADD COLUMN "heartbeatAt" DATETIME;
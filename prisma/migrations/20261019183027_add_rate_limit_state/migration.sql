@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "RateLimitState" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tokenKey" TEXT NOT NULL,
+    "resource" TEXT NOT NULL,
+    "remaining" INTEGER NOT NULL,
+    "limit" INTEGER NOT NULL,
+    "resetAt" DATETIME NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RateLimitState_tokenKey_resource_key" ON "RateLimitState"("tokenKey", "resource");
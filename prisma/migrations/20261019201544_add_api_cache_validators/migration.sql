@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "APICache" ADD COLUMN "etag" TEXT;
+ALTER TABLE "APICache" ADD COLUMN "lastModified" TEXT;
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "APICacheStats" (
+    "endpoint" TEXT NOT NULL PRIMARY KEY,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "misses" INTEGER NOT NULL DEFAULT 0,
+    "revalidations" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL
+);
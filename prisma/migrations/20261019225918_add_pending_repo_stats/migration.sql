@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "SyncJob" ADD COLUMN "statsPending" INTEGER;
+
+-- CreateTable
+CREATE TABLE "PendingRepoStats" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "repoId" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "nextAttemptAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "PendingRepoStats_repoId_fkey" FOREIGN KEY ("repoId") REFERENCES "SampledRepo" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PendingRepoStats_repoId_key" ON "PendingRepoStats"("repoId");
+
+-- CreateIndex
+CREATE INDEX "PendingRepoStats_nextAttemptAt_idx" ON "PendingRepoStats"("nextAttemptAt");
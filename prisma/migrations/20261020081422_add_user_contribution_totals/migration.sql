@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "UserContributionTotals" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "year" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "periodEnd" DATETIME NOT NULL,
+    "commitContributions" INTEGER NOT NULL DEFAULT 0,
+    "pullRequestContributions" INTEGER NOT NULL DEFAULT 0,
+    "reviewContributions" INTEGER NOT NULL DEFAULT 0,
+    "issueContributions" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "UserContributionTotals_userId_fkey" FOREIGN KEY ("userId") REFERENCES "SampledUser" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "UserContributionTotals_year_idx" ON "UserContributionTotals"("year");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserContributionTotals_userId_year_key" ON "UserContributionTotals"("userId", "year");
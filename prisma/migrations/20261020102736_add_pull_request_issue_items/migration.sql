@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "PullRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "nodeId" TEXT NOT NULL,
+    "repoId" TEXT NOT NULL,
+    "openedAt" DATETIME NOT NULL,
+    "mergedAt" DATETIME,
+    "closedAt" DATETIME,
+    "additions" INTEGER NOT NULL DEFAULT 0,
+    "deletions" INTEGER NOT NULL DEFAULT 0,
+    "reviewCount" INTEGER NOT NULL DEFAULT 0,
+    "changesRequestedCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "PullRequest_repoId_fkey" FOREIGN KEY ("repoId") REFERENCES "SampledRepo" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "Issue" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "nodeId" TEXT NOT NULL,
+    "repoId" TEXT NOT NULL,
+    "openedAt" DATETIME NOT NULL,
+    "closedAt" DATETIME,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Issue_repoId_fkey" FOREIGN KEY ("repoId") REFERENCES "SampledRepo" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PullRequest_nodeId_key" ON "PullRequest"("nodeId");
+
+-- CreateIndex
+CREATE INDEX "PullRequest_repoId_idx" ON "PullRequest"("repoId");
+
+-- CreateIndex
+CREATE INDEX "PullRequest_openedAt_idx" ON "PullRequest"("openedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Issue_nodeId_key" ON "Issue"("nodeId");
+
+-- CreateIndex
+CREATE INDEX "Issue_repoId_idx" ON "Issue"("repoId");
+
+-- CreateIndex
+CREATE INDEX "Issue_openedAt_idx" ON "Issue"("openedAt");
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "PullRequest" ADD COLUMN "number" INTEGER;
+ALTER TABLE "PullRequest" ADD COLUMN "authorLogin" TEXT;
+ALTER TABLE "PullRequest" ADD COLUMN "authorType" TEXT;
+ALTER TABLE "PullRequest" ADD COLUMN "isDraft" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "PullRequest" ADD COLUMN "commentCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "PullRequest" ADD COLUMN "labels" TEXT NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN "number" INTEGER;
+ALTER TABLE "Issue" ADD COLUMN "authorLogin" TEXT;
+ALTER TABLE "Issue" ADD COLUMN "authorType" TEXT;
+ALTER TABLE "Issue" ADD COLUMN "commentCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Issue" ADD COLUMN "labels" TEXT NOT NULL DEFAULT '[]';
+
+-- CreateIndex
+CREATE INDEX "PullRequest_authorLogin_idx" ON "PullRequest"("authorLogin");
+
+-- CreateIndex
+CREATE INDEX "Issue_authorLogin_idx" ON "Issue"("authorLogin");
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "CommitMetrics" ADD COLUMN "isBot" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "PRMetrics" ADD COLUMN "isBot" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "IssueMetrics" ADD COLUMN "isBot" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "PullRequest" ADD COLUMN "title" TEXT;
+ALTER TABLE "PullRequest" ADD COLUMN "isBot" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN "title" TEXT;
+ALTER TABLE "Issue" ADD COLUMN "isBot" BOOLEAN NOT NULL DEFAULT false;
+
+-- DropIndex
+DROP INDEX "CommitMetrics_date_userId_repoId_language_key";
+
+-- DropIndex
+DROP INDEX "PRMetrics_date_userId_repoId_language_key";
+
+-- DropIndex
+DROP INDEX "IssueMetrics_date_repoId_language_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CommitMetrics_date_userId_repoId_language_isBot_key" ON "CommitMetrics"("date", "userId", "repoId", "language", "isBot");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PRMetrics_date_userId_repoId_language_isBot_key" ON "PRMetrics"("date", "userId", "repoId", "language", "isBot");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IssueMetrics_date_repoId_language_isBot_key" ON "IssueMetrics"("date", "repoId", "language", "isBot");
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "RepoContributorWeek" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "weekStart" DATETIME NOT NULL,
+    "repoId" TEXT NOT NULL,
+    "authorGithubId" INTEGER NOT NULL,
+    "authorLogin" TEXT NOT NULL,
+    "userId" TEXT,
+    "isBot" BOOLEAN NOT NULL DEFAULT false,
+    "commitCount" INTEGER NOT NULL DEFAULT 0,
+    "linesAdded" INTEGER NOT NULL DEFAULT 0,
+    "linesRemoved" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "RepoContributorWeek_repoId_fkey" FOREIGN KEY ("repoId") REFERENCES "SampledRepo" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RepoContributorWeek_userId_fkey" FOREIGN KEY ("userId") REFERENCES "SampledUser" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "RepoContributorWeek_weekStart_idx" ON "RepoContributorWeek"("weekStart");
+
+-- CreateIndex
+CREATE INDEX "RepoContributorWeek_userId_idx" ON "RepoContributorWeek"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RepoContributorWeek_repoId_authorGithubId_weekStart_key" ON "RepoContributorWeek"("repoId", "authorGithubId", "weekStart");
@@ -0,0 +1,34 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_GlobalDailyMetrics" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "date" DATETIME NOT NULL,
+    "totalContributions" INTEGER NOT NULL DEFAULT 0,
+    "contributionsByTier" TEXT NOT NULL DEFAULT '{}',
+    "totalCommits" INTEGER NOT NULL DEFAULT 0,
+    "avgCommitsPerUser" REAL NOT NULL DEFAULT 0,
+    "totalLinesAdded" INTEGER NOT NULL DEFAULT 0,
+    "totalLinesRemoved" INTEGER NOT NULL DEFAULT 0,
+    "avgLinesPerCommit" REAL NOT NULL DEFAULT 0,
+    "userCommits" INTEGER NOT NULL DEFAULT 0,
+    "userLinesAdded" INTEGER NOT NULL DEFAULT 0,
+    "userLinesRemoved" INTEGER NOT NULL DEFAULT 0,
+    "totalPRsOpened" INTEGER NOT NULL DEFAULT 0,
+    "totalPRsMerged" INTEGER NOT NULL DEFAULT 0,
+    "avgTimeToMergeHrs" REAL,
+    "avgReviewCycles" REAL,
+    "avgLinesPerPR" REAL,
+    "totalIssuesOpened" INTEGER NOT NULL DEFAULT 0,
+    "totalIssuesClosed" INTEGER NOT NULL DEFAULT 0,
+    "avgResolutionHrs" REAL,
+    "activeUsers" INTEGER NOT NULL DEFAULT 0,
+    "activeRepos" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+DROP TABLE "GlobalDailyMetrics";
+ALTER TABLE "new_GlobalDailyMetrics" RENAME TO "GlobalDailyMetrics";
+CREATE UNIQUE INDEX "GlobalDailyMetrics_date_key" ON "GlobalDailyMetrics"("date");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
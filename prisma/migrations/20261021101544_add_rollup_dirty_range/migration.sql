@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "RollupDirtyRange" (
+    "id" INTEGER NOT NULL PRIMARY KEY DEFAULT 1,
+    "fromDate" DATETIME NOT NULL,
+    "toDate" DATETIME NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "SyncJobLock" (
+    "resource" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SyncJobLock_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "SyncJob" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "SyncJobLock_jobId_idx" ON "SyncJobLock"("jobId");
+
+-- Backfill locks for jobs active at migration time (newest job wins a resource)
+INSERT OR IGNORE INTO "SyncJobLock" ("resource", "jobId")
+SELECT 'users', "id" FROM "SyncJob"
+WHERE "status" IN ('pending', 'running') AND "jobType" IN ('all', 'users', 'refresh')
+ORDER BY "createdAt" DESC;
+
+INSERT OR IGNORE INTO "SyncJobLock" ("resource", "jobId")
+SELECT 'repos', "id" FROM "SyncJob"
+WHERE "status" IN ('pending', 'running') AND "jobType" IN ('all', 'repos')
+ORDER BY "createdAt" DESC;
+
+INSERT OR IGNORE INTO "SyncJobLock" ("resource", "jobId")
+SELECT "jobType", "id" FROM "SyncJob"
+WHERE "status" IN ('pending', 'running') AND "jobType" NOT IN ('all', 'users', 'refresh', 'repos')
+ORDER BY "createdAt" DESC;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "APICache" ADD COLUMN "tokenKey" TEXT;
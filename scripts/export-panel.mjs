@@ -12,6 +12,7 @@
  *   --start Start date (YYYY-MM-DD, default: 2020-01-01)
  *   --end   End date (YYYY-MM-DD, default: today)
  *   --db    DATABASE_URL override (e.g. file:./dev_v1.db)
+ *   --include-bots  Keep bot/automation PRs and issues in the repo columns
  */
 
 import fs from "fs";
@@ -65,6 +66,7 @@ async function main() {
   const outPath = args.out || path.join("analysis", "user_month_panel.csv");
   const start = args.start || "2020-01-01";
   const end = args.end || new Date().toISOString().slice(0, 10);
+  const includeBots = args["include-bots"] ? 1 : 0;
 
   if (args.db) {
     process.env.DATABASE_URL = args.db;
@@ -105,13 +107,62 @@ async function main() {
       SUM(prsMerged) as prsMerged,
       CASE WHEN SUM(prsMerged) > 0
         THEN SUM(COALESCE(avgTimeToMergeHrs, 0) * prsMerged) / SUM(prsMerged)
-        ELSE NULL END as avgTimeToMergeHrs
+        ELSE NULL END as avgTimeToMergeHrs,
+      CASE WHEN SUM(CASE WHEN avgLinesPerPR IS NOT NULL THEN prsOpened ELSE 0 END) > 0
+        THEN SUM(COALESCE(avgLinesPerPR, 0) * prsOpened)
+          / SUM(CASE WHEN avgLinesPerPR IS NOT NULL THEN prsOpened ELSE 0 END)
+        ELSE NULL END as avgLinesPerPR,
+      CASE WHEN SUM(CASE WHEN avgReviewCycles IS NOT NULL THEN prsOpened ELSE 0 END) > 0
+        THEN SUM(COALESCE(avgReviewCycles, 0) * prsOpened)
+          / SUM(CASE WHEN avgReviewCycles IS NOT NULL THEN prsOpened ELSE 0 END)
+        ELSE NULL END as avgReviewCycles
     FROM PRMetrics
-    WHERE date >= ${startMs} AND date <= ${endMs}
+    WHERE date >= ${startMs} AND date <= ${endMs} AND userId IS NULL
+      AND (isBot = 0 OR ${includeBots} = 1)
     GROUP BY month
   `;
   const prByMonth = new Map(prMonthly.map((m) => [m.month, m]));
 
+  // PRs the sampled users authored themselves (from a type=prs sync)
+  const userPrMonthly = await prisma.$queryRaw`
+    SELECT
+      userId as userId,
+      strftime('%Y-%m-01', date/1000, 'unixepoch') as month,
+      SUM(prsOpened) as prsOpened,
+      SUM(prsMerged) as prsMerged,
+      CASE WHEN SUM(prsMerged) > 0
+        THEN SUM(COALESCE(avgTimeToMergeHrs, 0) * prsMerged) / SUM(prsMerged)
+        ELSE NULL END as avgTimeToMergeHrs,
+      CASE WHEN SUM(prsOpened) > 0
+        THEN SUM(COALESCE(avgLinesPerPR, 0) * prsOpened) / SUM(prsOpened)
+        ELSE NULL END as avgLinesPerPR,
+      CASE WHEN SUM(prsOpened) > 0
+        THEN SUM(COALESCE(avgReviewCycles, 0) * prsOpened) / SUM(prsOpened)
+        ELSE NULL END as avgReviewCycles
+    FROM PRMetrics
+    WHERE date >= ${startMs} AND date <= ${endMs} AND userId IS NOT NULL
+    GROUP BY userId, month
+  `;
+  const userPrByKey = new Map(
+    userPrMonthly.map((m) => [`${m.userId}:${m.month}`, m])
+  );
+
+  // Commits and lines by sampled users in sampled repos (contributor stats weeks)
+  const userCommitMonthly = await prisma.$queryRaw`
+    SELECT
+      userId as userId,
+      strftime('%Y-%m-01', date/1000, 'unixepoch') as month,
+      SUM(commitCount) as commits,
+      SUM(linesAdded) as linesAdded,
+      SUM(linesRemoved) as linesRemoved
+    FROM CommitMetrics
+    WHERE date >= ${startMs} AND date <= ${endMs} AND userId IS NOT NULL
+    GROUP BY userId, month
+  `;
+  const userCommitByKey = new Map(
+    userCommitMonthly.map((m) => [`${m.userId}:${m.month}`, m])
+  );
+
   const issueMonthly = await prisma.$queryRaw`
     SELECT
       strftime('%Y-%m-01', date/1000, 'unixepoch') as month,
@@ -122,6 +173,7 @@ async function main() {
         ELSE NULL END as avgResolutionHrs
     FROM IssueMetrics
     WHERE date >= ${startMs} AND date <= ${endMs}
+      AND (isBot = 0 OR ${includeBots} = 1)
     GROUP BY month
   `;
   const issueByMonth = new Map(issueMonthly.map((m) => [m.month, m]));
@@ -138,6 +190,8 @@ async function main() {
 
     const pr = prByMonth.get(month) || {};
     const issues = issueByMonth.get(month) || {};
+    const userPr = userPrByKey.get(`${u.id}:${month}`) || {};
+    const userCommits = userCommitByKey.get(`${u.id}:${month}`) || {};
 
     panelRows.push({
       userId: u.id,
@@ -154,6 +208,22 @@ async function main() {
       prsMerged: pr.prsMerged ? Number(pr.prsMerged) : 0,
       avgTimeToMergeHrs:
         pr.avgTimeToMergeHrs != null ? Number(pr.avgTimeToMergeHrs) : "",
+      avgLinesPerPR: pr.avgLinesPerPR != null ? Number(pr.avgLinesPerPR) : "",
+      avgReviewCycles:
+        pr.avgReviewCycles != null ? Number(pr.avgReviewCycles) : "",
+      userPrsOpened: userPr.prsOpened ? Number(userPr.prsOpened) : 0,
+      userPrsMerged: userPr.prsMerged ? Number(userPr.prsMerged) : 0,
+      userAvgTimeToMergeHrs:
+        userPr.avgTimeToMergeHrs != null ? Number(userPr.avgTimeToMergeHrs) : "",
+      userAvgLinesPerPR:
+        userPr.avgLinesPerPR != null ? Number(userPr.avgLinesPerPR) : "",
+      userAvgReviewCycles:
+        userPr.avgReviewCycles != null ? Number(userPr.avgReviewCycles) : "",
+      userRepoCommits: userCommits.commits ? Number(userCommits.commits) : 0,
+      userRepoLinesAdded: userCommits.linesAdded ? Number(userCommits.linesAdded) : 0,
+      userRepoLinesRemoved: userCommits.linesRemoved
+        ? Number(userCommits.linesRemoved)
+        : 0,
       issuesOpened: issues.issuesOpened ? Number(issues.issuesOpened) : 0,
       issuesClosed: issues.issuesClosed ? Number(issues.issuesClosed) : 0,
       avgResolutionHrs:
@@ -175,6 +245,16 @@ async function main() {
     "prsOpened",
     "prsMerged",
     "avgTimeToMergeHrs",
+    "avgLinesPerPR",
+    "avgReviewCycles",
+    "userPrsOpened",
+    "userPrsMerged",
+    "userAvgTimeToMergeHrs",
+    "userAvgLinesPerPR",
+    "userAvgReviewCycles",
+    "userRepoCommits",
+    "userRepoLinesAdded",
+    "userRepoLinesRemoved",
     "issuesOpened",
     "issuesClosed",
     "avgResolutionHrs",
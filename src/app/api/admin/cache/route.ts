@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { evictExpiredCache, getCacheStats, purgeCache } from "@/lib/api-cache";
+
+// GET /api/admin/cache - Per-endpoint cache size and hit/miss counts
+export async function GET() {
+  try {
+    const endpoints = await getCacheStats();
+    return NextResponse.json({
+      endpoints,
+      totals: endpoints.reduce(
+        (acc, e) => ({
+          rows: acc.rows + e.rows,
+          expiredRows: acc.expiredRows + e.expiredRows,
+          bytes: acc.bytes + e.bytes,
+        }),
+        { rows: 0, expiredRows: 0, bytes: 0 }
+      ),
+    });
+  } catch (error) {
+    console.error("Error getting cache stats:", error);
+    return NextResponse.json(
+      { error: "Failed to get cache stats" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/cache?prefix=search:users: - Purge entries by key prefix
+// DELETE /api/admin/cache?expired=true - Evict expired entries
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const prefix = searchParams.get("prefix")?.trim();
+  const expired = ["1", "true", "yes"].includes(
+    (searchParams.get("expired") ?? "").toLowerCase()
+  );
+
+  if (!prefix && !expired) {
+    return NextResponse.json(
+      { error: "Pass prefix=<key prefix> or expired=true" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const purged = prefix ? await purgeCache(prefix) : 0;
+    const evicted = expired ? await evictExpiredCache() : 0;
+    return NextResponse.json({ success: true, purged, evicted });
+  } catch (error) {
+    console.error("Error purging cache:", error);
+    return NextResponse.json(
+      { error: "Failed to purge cache" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { rebuildGlobalDailyMetrics } from "@/lib/rollup";
+
+// GET /api/admin/rollup - GlobalDailyMetrics coverage and days awaiting a rebuild
+export async function GET() {
+  try {
+    const [coverage, dirty] = await Promise.all([
+      prisma.globalDailyMetrics.aggregate({
+        _count: { _all: true },
+        _min: { date: true },
+        _max: { date: true, updatedAt: true },
+      }),
+      prisma.rollupDirtyRange.findUnique({ where: { id: 1 } }),
+    ]);
+
+    return NextResponse.json({
+      rows: coverage._count._all,
+      firstDay: coverage._min.date?.toISOString() ?? null,
+      lastDay: coverage._max.date?.toISOString() ?? null,
+      lastRebuiltAt: coverage._max.updatedAt?.toISOString() ?? null,
+      dirtyRange: dirty
+        ? { from: dirty.fromDate.toISOString(), to: dirty.toDate.toISOString() }
+        : null,
+    });
+  } catch (error) {
+    console.error("Error getting rollup status:", error);
+    return NextResponse.json(
+      { error: "Failed to get rollup status" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/rollup?from=2020-01-01&to=2025-12-31 - Rebuild a day range
+// (defaults to 2020-01-01 through today)
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const from = new Date(searchParams.get("from") ?? "2020-01-01");
+  const toParam = searchParams.get("to");
+  const to = toParam ? new Date(toParam) : new Date();
+
+  if (!Number.isFinite(from.getTime()) || !Number.isFinite(to.getTime()) || from > to) {
+    return NextResponse.json(
+      { error: "Pass from/to as YYYY-MM-DD with from <= to" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rows = await rebuildGlobalDailyMetrics(from, to);
+    return NextResponse.json({ success: true, rows });
+  } catch (error) {
+    console.error("Error rebuilding rollup:", error);
+    return NextResponse.json(
+      { error: "Failed to rebuild rollup" },
+      { status: 500 }
+    );
+  }
+}
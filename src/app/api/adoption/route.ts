@@ -2,6 +2,13 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { syncAISignals } from "@/lib/adoption";
 import { getRateLimitStatus } from "@/lib/github";
+import {
+  SyncJobCancelledError,
+  createJobWithLock,
+  finishJob,
+  keepJobAlive,
+  touchJob,
+} from "@/lib/sync-jobs";
 
 // POST /api/adoption - scan repos/users for AI adoption signals
 export async function POST(request: Request) {
@@ -11,27 +18,52 @@ export async function POST(request: Request) {
   const maxRepoPages = Number.isFinite(maxRepoPagesRaw) ? maxRepoPagesRaw : 2;
   const perPage = Number.isFinite(perPageRaw) ? perPageRaw : 50;
 
-  const job = await prisma.syncJob.create({
-    data: {
-      jobType: "adoption",
-      status: "running",
-      startedAt: new Date(),
-    },
+  let lock: Awaited<ReturnType<typeof createJobWithLock>>;
+  try {
+    lock = await createJobWithLock({ jobType: "adoption" });
+  } catch (error) {
+    console.error("Error creating adoption job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to start adoption sync",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+
+  const { job, conflict } = lock;
+  if (!job) {
+    return NextResponse.json(
+      {
+        error: "Adoption sync already running",
+        message: `Job ${conflict.id} is still ${conflict.status}`,
+        jobId: conflict.id,
+      },
+      { status: 409 }
+    );
+  }
+
+  await prisma.syncJob.update({
+    where: { id: job.id },
+    data: { status: "running", startedAt: new Date() },
   });
 
+  const stopHeartbeat = keepJobAlive(job.id);
   try {
-    const result = await syncAISignals({ maxRepoPages, perPage });
-
-    await prisma.syncJob.update({
-      where: { id: job.id },
-      data: {
-        status: "completed",
-        completedAt: new Date(),
-        itemsProcessed: result.reposScanned + result.usersUpdated,
-        rateLimitRemaining: getRateLimitStatus().rest.remaining,
+    const result = await syncAISignals({
+      maxRepoPages,
+      perPage,
+      // Honour DELETE /api/sync/:jobId between repos
+      onRepoDone: async (reposScanned) => {
+        await touchJob(job.id, { itemsProcessed: reposScanned });
       },
     });
 
+    await finishJob(job.id, null, {
+      itemsProcessed: result.reposScanned + result.usersUpdated,
+    });
+
     return NextResponse.json({
       success: true,
       jobId: job.id,
@@ -39,16 +71,19 @@ export async function POST(request: Request) {
       rateLimitStatus: getRateLimitStatus(),
     });
   } catch (error) {
-    await prisma.syncJob.update({
-      where: { id: job.id },
-      data: {
-        status: "failed",
-        completedAt: new Date(),
-        errorMessage: error instanceof Error ? error.message : "Unknown error",
-      },
-    });
+    await finishJob(job.id, error);
+
+    if (error instanceof SyncJobCancelledError) {
+      return NextResponse.json(
+        {
+          error: "Adoption sync cancelled",
+          message: error.message,
+          jobId: job.id,
+        },
+        { status: 409 }
+      );
+    }
 
-    console.error("Adoption sync error:", error);
     return NextResponse.json(
       {
         error: "Adoption sync failed",
@@ -56,6 +91,8 @@ export async function POST(request: Request) {
       },
       { status: 500 }
     );
+  } finally {
+    stopHeartbeat();
   }
 }
 
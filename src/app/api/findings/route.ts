@@ -1,5 +1,11 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import {
+  BOOTSTRAP_LEVEL,
+  BOOTSTRAP_RESAMPLES_ENV,
+  BOOTSTRAP_SEED_ENV,
+  bootstrapMeans,
+} from "@/lib/bootstrap";
 
 function pad2(n: number) {
   return String(n).padStart(2, "0");
@@ -208,14 +214,35 @@ export async function GET() {
     const tiersPost = toTierMap(postTierAggRaw, post.days);
 
     const deltas: number[] = [];
+    const perUserRows: Array<{ unit: string; bucket: string; value: number }> = [];
     for (const row of perUserRaw) {
       const preAvg =
         pre.days > 0 ? Number(row.preTotal || 0) / pre.days : 0;
       const postAvg =
         post.days > 0 ? Number(row.postTotal || 0) / post.days : 0;
       deltas.push(postAvg - preAvg);
+      perUserRows.push(
+        { unit: row.userId, bucket: "pre", value: preAvg },
+        { unit: row.userId, bucket: "post", value: postAvg },
+        { unit: row.userId, bucket: "delta", value: postAvg - preAvg }
+      );
     }
 
+    // Period means are over the whole cohort; the delta mean is over users with
+    // contributions in either period, matching the estimates they accompany
+    const bootstrapOptions = { seed: BOOTSTRAP_SEED_ENV, resamples: BOOTSTRAP_RESAMPLES_ENV };
+    const periodIntervals = bootstrapMeans(
+      perUserRows.filter((row) => row.bucket !== "delta"),
+      userCount,
+      bootstrapOptions
+    );
+    const deltaInterval =
+      bootstrapMeans(
+        perUserRows.filter((row) => row.bucket === "delta"),
+        deltas.length,
+        bootstrapOptions
+      ).get("delta") ?? null;
+
     deltas.sort((a, b) => a - b);
     const mean =
       deltas.length > 0
@@ -250,11 +277,13 @@ export async function GET() {
           startMonth: pre.startMonth,
           endMonth: pre.endMonth,
           ...preStats,
+          contributionsPerUserPerDayCI: periodIntervals.get("pre") ?? null,
         },
         post: {
           startMonth: post.startMonth,
           endMonth: post.endMonth,
           ...postStats,
+          contributionsPerUserPerDayCI: periodIntervals.get("post") ?? null,
         },
       },
       tiers: {
@@ -271,8 +300,14 @@ export async function GET() {
           p90: percentile(deltas, 0.9),
           pctPositive,
           n: deltas.length,
+          meanCI: deltaInterval,
         },
       },
+      bootstrap: {
+        resamples: BOOTSTRAP_RESAMPLES_ENV,
+        seed: BOOTSTRAP_SEED_ENV,
+        level: BOOTSTRAP_LEVEL,
+      },
       adoption: {
         usersWithAI,
         reposWithAI,
@@ -1,46 +1,25 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import type { GlobalMetrics, TrendData } from "@/types/metrics";
+import { Prisma } from "@prisma/client";
+import { BOOTSTRAP_LEVEL, bootstrapMeans } from "@/lib/bootstrap";
+import { parseMetricsQuery } from "@/lib/metrics-filters";
+import { withTrendVariants } from "@/lib/trend-variants";
+import {
+  bucketDaysInRange,
+  bucketKey,
+  bucketRange,
+  bucketSqlExpr,
+} from "@/lib/time-buckets";
+import type { Granularity, GlobalMetrics, TrendData } from "@/types/metrics";
+
+// Default for ?source=: "raw" tables or the GlobalDailyMetrics "rollup"
+const METRICS_SOURCE_DEFAULT =
+  (process.env.METRICS_SOURCE ?? "").trim().toLowerCase() === "rollup" ? "rollup" : "raw";
 
 function endOfLastFullMonthUtc(now: Date) {
   return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 0, 23, 59, 59, 999));
 }
 
-function pad2(n: number) {
-  return String(n).padStart(2, "0");
-}
-
-function ymFromDateUtc(date: Date) {
-  return `${date.getUTCFullYear()}-${pad2(date.getUTCMonth() + 1)}`;
-}
-
-function monthRange(ymStart: string, ymEnd: string) {
-  const [sy, sm] = ymStart.split("-").map(Number);
-  const [ey, em] = ymEnd.split("-").map(Number);
-  if (![sy, sm, ey, em].every(Number.isFinite)) {
-    throw new Error(`Invalid month range: ${ymStart}..${ymEnd}`);
-  }
-
-  const months: string[] = [];
-  let y = sy;
-  let m = sm;
-  while (y < ey || (y === ey && m <= em)) {
-    months.push(`${y}-${pad2(m)}`);
-    m += 1;
-    if (m === 13) {
-      m = 1;
-      y += 1;
-    }
-  }
-  return months;
-}
-
-function daysInMonthFromYm(ym: string) {
-  const [y, m] = ym.split("-").map(Number);
-  if (!Number.isFinite(y) || !Number.isFinite(m)) return 30;
-  return new Date(Date.UTC(y, m, 0)).getUTCDate();
-}
-
 function percentile(sorted: number[], p: number) {
   if (sorted.length === 0) return 0;
   const clamped = Math.min(1, Math.max(0, p));
@@ -54,8 +33,37 @@ function percentile(sorted: number[], p: number) {
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
-  const startDate = searchParams.get("startDate");
-  const endDate = searchParams.get("endDate");
+  const parsed = parseMetricsQuery(searchParams);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid metrics filters", details: parsed.errors },
+      { status: 400 }
+    );
+  }
+
+  const {
+    startDate,
+    endDate,
+    language,
+    userTier,
+    granularity,
+    rollingWindow,
+    bootstrapSamples,
+    bootstrapSeed,
+    includeBots,
+  } = parsed.query;
+  // Repo commit/PR/issue series leave out bot and automation activity unless includeBots=true
+  const botFilter = includeBots ? {} : { isBot: false };
+  // null = no filter; raw queries use `(${x} IS NULL OR col = ${x})`
+  const languageValue = language === "all" ? null : language;
+  const tierValue = userTier === "all" ? null : userTier;
+  const languageFilter = languageValue ? { language: languageValue } : {};
+  // source=rollup reads the GlobalDailyMetrics rollup instead of scanning every
+  // user-day. The rollup holds the default (bot-free, unfiltered) view and no
+  // per-user quantiles, so bot-inclusive or filtered requests read the raw tables.
+  const source = parsed.query.source ?? METRICS_SOURCE_DEFAULT;
+  const useRollup =
+    source === "rollup" && !includeBots && !languageValue && !tierValue;
 
   try {
     const defaultEnd = endOfLastFullMonthUtc(new Date());
@@ -64,85 +72,178 @@ export async function GET(request: Request) {
     const dateFilter = { gte: start, lte: end };
     const startMs = start.getTime();
     const endMs = end.getTime();
+    // Bucket key of a ms DateTime column, e.g. '2024-01-01' for January at month granularity
+    const bucketOf = (column: string) => Prisma.raw(bucketSqlExpr(column, granularity));
 
     const [
-      commitMetrics,
-      prMetrics,
-      issueMetrics,
+      rawCommitMetrics,
+      rawUserCommitMetrics,
+      rawPRMetrics,
+      rawIssueMetrics,
+      rollupRows,
       userCount,
       repoCount,
       tierCountsRaw,
-      userAggByMonthRaw,
-      userAggByMonthTierRaw,
-      userMonthTotalsRaw,
+      rawUserAggByBucket,
+      rawUserAggByBucketTier,
+      userBucketTotalsRaw,
+      contributionTypeTotalsRaw,
+      concentrationRaw,
     ] = await Promise.all([
-      prisma.commitMetrics.findMany({
-        where: { date: dateFilter },
-        orderBy: { date: "asc" },
-      }),
-      prisma.pRMetrics.findMany({
-        where: { date: dateFilter },
-        orderBy: { date: "asc" },
-      }),
-      prisma.issueMetrics.findMany({
-        where: { date: dateFilter },
-        orderBy: { date: "asc" },
+      // Repo-level rows only; per-user rows from contributor stats are a separate series
+      useRollup
+        ? []
+        : prisma.commitMetrics.findMany({
+            where: { date: dateFilter, userId: null, ...botFilter, ...languageFilter },
+            orderBy: { date: "asc" },
+          }),
+      useRollup
+        ? []
+        : prisma.commitMetrics.findMany({
+            where: {
+              date: dateFilter,
+              userId: { not: null },
+              ...languageFilter,
+              ...(tierValue ? { user: { tier: tierValue } } : {}),
+            },
+            orderBy: { date: "asc" },
+          }),
+      // Repo-level rows only; user-level PR rows (userId set) are a separate series
+      useRollup
+        ? []
+        : prisma.pRMetrics.findMany({
+            where: { date: dateFilter, userId: null, ...botFilter, ...languageFilter },
+            orderBy: { date: "asc" },
+          }),
+      useRollup
+        ? []
+        : prisma.issueMetrics.findMany({
+            where: { date: dateFilter, ...botFilter, ...languageFilter },
+            orderBy: { date: "asc" },
+          }),
+      useRollup
+        ? prisma.globalDailyMetrics.findMany({
+            where: { date: dateFilter },
+            orderBy: { date: "asc" },
+          })
+        : [],
+      prisma.sampledUser.count({ where: tierValue ? { tier: tierValue } : {} }),
+      prisma.sampledRepo.count({
+        where: languageValue ? { primaryLanguage: languageValue } : {},
       }),
-      prisma.sampledUser.count(),
-      prisma.sampledRepo.count(),
       prisma.$queryRaw<{ tier: string; n: number }[]>`
         SELECT tier as tier, COUNT(*) as n
         FROM SampledUser
+        WHERE (${tierValue} IS NULL OR tier = ${tierValue})
         GROUP BY tier
       `,
-      prisma.$queryRaw<
-        { ym: string; total: number | null; activeUserDays: number | null }[]
-      >`
+      useRollup
+        ? []
+        : prisma.$queryRaw<UserAggByBucketRow[]>`
+            SELECT
+              ${bucketOf("m.date")} as bucket,
+              SUM(m.contributionCount) as total,
+              COUNT(*) as activeUserDays
+            FROM UserContributionMetrics m
+            JOIN SampledUser u ON u.id = m.userId
+            WHERE m.date >= ${startMs} AND m.date <= ${endMs}
+              AND (${tierValue} IS NULL OR u.tier = ${tierValue})
+            GROUP BY bucket
+            ORDER BY bucket ASC
+          `,
+      useRollup
+        ? []
+        : prisma.$queryRaw<UserAggByBucketTierRow[]>`
+            SELECT
+              ${bucketOf("m.date")} as bucket,
+              u.tier as tier,
+              SUM(m.contributionCount) as total,
+              COUNT(*) as activeUserDays
+            FROM UserContributionMetrics m
+            JOIN SampledUser u ON u.id = m.userId
+            WHERE m.date >= ${startMs} AND m.date <= ${endMs}
+              AND (${tierValue} IS NULL OR u.tier = ${tierValue})
+            GROUP BY bucket, tier
+            ORDER BY bucket ASC
+          `,
+      useRollup
+        ? []
+        : prisma.$queryRaw<
+            { bucket: string; userId: string; tier: string; total: number | null }[]
+          >`
+            SELECT
+              ${bucketOf("m.date")} as bucket,
+              m.userId as userId,
+              u.tier as tier,
+              SUM(m.contributionCount) as total
+            FROM UserContributionMetrics m
+            JOIN SampledUser u ON u.id = m.userId
+            WHERE m.date >= ${startMs} AND m.date <= ${endMs}
+              AND (${tierValue} IS NULL OR u.tier = ${tierValue})
+            GROUP BY bucket, userId, tier
+          `,
+      prisma.$queryRaw<ContributionTypeTotalsRow[]>`
         SELECT
-          strftime('%Y-%m', datetime(date/1000, 'unixepoch')) as ym,
-          SUM(contributionCount) as total,
-          COUNT(*) as activeUserDays
-        FROM UserContributionMetrics
-        WHERE date >= ${startMs} AND date <= ${endMs}
-        GROUP BY ym
-        ORDER BY ym ASC
-      `,
-      prisma.$queryRaw<
-        {
-          ym: string;
-          tier: string;
-          total: number | null;
-          activeUserDays: number | null;
-        }[]
-      >`
-        SELECT
-          strftime('%Y-%m', datetime(m.date/1000, 'unixepoch')) as ym,
+          t.year as year,
           u.tier as tier,
-          SUM(m.contributionCount) as total,
-          COUNT(*) as activeUserDays
-        FROM UserContributionMetrics m
-        JOIN SampledUser u ON u.id = m.userId
-        WHERE m.date >= ${startMs} AND m.date <= ${endMs}
-        GROUP BY ym, tier
-        ORDER BY ym ASC
+          COUNT(*) as users,
+          MAX(t.periodEnd) as periodEnd,
+          SUM(t.commitContributions) as commits,
+          SUM(t.pullRequestContributions) as pullRequests,
+          SUM(t.reviewContributions) as reviews,
+          SUM(t.issueContributions) as issues
+        FROM UserContributionTotals t
+        JOIN SampledUser u ON u.id = t.userId
+        WHERE t.year >= ${start.getUTCFullYear()} AND t.year <= ${end.getUTCFullYear()}
+          AND (${tierValue} IS NULL OR u.tier = ${tierValue})
+        GROUP BY t.year, u.tier
+        ORDER BY t.year ASC
       `,
-      prisma.$queryRaw<
-        { ym: string; userId: string; tier: string; total: number | null }[]
-      >`
-        SELECT
-          strftime('%Y-%m', datetime(m.date/1000, 'unixepoch')) as ym,
-          m.userId as userId,
-          u.tier as tier,
-          SUM(m.contributionCount) as total
-        FROM UserContributionMetrics m
-        JOIN SampledUser u ON u.id = m.userId
-        WHERE m.date >= ${startMs} AND m.date <= ${endMs}
-        GROUP BY ym, userId, tier
+      // Herfindahl index of commit shares among a repo's contributors per bucket,
+      // averaged over repos (1 = a single author, near 0 = widely spread)
+      prisma.$queryRaw<{ bucket: string; hhi: number | null; repos: number }[]>`
+        WITH authorBuckets AS (
+          SELECT
+            repoId,
+            ${bucketOf("weekStart")} as bucket,
+            authorGithubId,
+            SUM(commitCount) as commits
+          FROM RepoContributorWeek
+          WHERE weekStart >= ${startMs} AND weekStart <= ${endMs}
+            AND (isBot = 0 OR ${includeBots ? 1 : 0} = 1)
+            AND (
+              ${languageValue} IS NULL
+              OR repoId IN (SELECT id FROM SampledRepo WHERE primaryLanguage = ${languageValue})
+            )
+          GROUP BY repoId, bucket, authorGithubId
+        ),
+        repoBuckets AS (
+          SELECT
+            repoId,
+            bucket,
+            SUM(commits * commits) * 1.0 / (SUM(commits) * SUM(commits)) as hhi
+          FROM authorBuckets
+          GROUP BY repoId, bucket
+          HAVING SUM(commits) > 0
+        )
+        SELECT bucket, AVG(hhi) as hhi, COUNT(*) as repos
+        FROM repoBuckets
+        GROUP BY bucket
+        ORDER BY bucket ASC
       `,
     ]);
 
+    const rollup = useRollup ? fromRollupRows(rollupRows, granularity) : null;
+    const commitMetrics: CommitMetricsRow[] = rollup?.commitMetrics ?? rawCommitMetrics;
+    const userCommitMetrics: CommitMetricsRow[] =
+      rollup?.userCommitMetrics ?? rawUserCommitMetrics;
+    const prMetrics: PRMetricsRow[] = rollup?.prMetrics ?? rawPRMetrics;
+    const issueMetrics: IssueMetricsRow[] = rollup?.issueMetrics ?? rawIssueMetrics;
+    const userAggByBucketRaw = rollup?.userAggByBucket ?? rawUserAggByBucket;
+    const userAggByBucketTierRaw = rollup?.userAggByBucketTier ?? rawUserAggByBucketTier;
+
     // Check if we have any data
-    const hasUserData = userAggByMonthRaw.length > 0;
+    const hasUserData = userAggByBucketRaw.length > 0;
     const hasRepoData =
       commitMetrics.length > 0 || prMetrics.length > 0 || issueMetrics.length > 0;
 
@@ -159,34 +260,32 @@ export async function GET(request: Request) {
       tierCounts[row.tier] = Number(row.n || 0);
     }
 
-    const startYm = ymFromDateUtc(start);
-    const endYm = ymFromDateUtc(end);
-    const months = monthRange(startYm, endYm);
+    const buckets = bucketRange(start, end, granularity);
 
-    const daysByYm = new Map<string, number>();
-    for (const ym of months) {
-      daysByYm.set(ym, daysInMonthFromYm(ym));
+    const daysByBucket = new Map<string, number>();
+    for (const bucket of buckets) {
+      daysByBucket.set(bucket, bucketDaysInRange(bucket, granularity, start, end));
     }
 
-    const userAggByMonth = new Map<string, { total: number; activeUserDays: number }>();
-    for (const row of userAggByMonthRaw) {
-      userAggByMonth.set(row.ym, {
+    const userAggByBucket = new Map<string, { total: number; activeUserDays: number }>();
+    for (const row of userAggByBucketRaw) {
+      userAggByBucket.set(row.bucket, {
         total: Number(row.total || 0),
         activeUserDays: Number(row.activeUserDays || 0),
       });
     }
 
-    const userAggByMonthTier = new Map<
+    const userAggByBucketTier = new Map<
       string,
       Map<string, { total: number; activeUserDays: number }>
     >();
-    for (const row of userAggByMonthTierRaw) {
-      const ym = row.ym;
+    for (const row of userAggByBucketTierRaw) {
+      const bucket = row.bucket;
       const tierMap =
-        userAggByMonthTier.get(ym) ||
+        userAggByBucketTier.get(bucket) ||
         (() => {
           const created = new Map<string, { total: number; activeUserDays: number }>();
-          userAggByMonthTier.set(ym, created);
+          userAggByBucketTier.set(bucket, created);
           return created;
         })();
 
@@ -196,23 +295,25 @@ export async function GET(request: Request) {
       });
     }
 
-    const perUserValuesByMonth = new Map<string, number[]>();
-    const perTierValuesByMonth = new Map<string, Map<string, number[]>>();
+    const perUserValuesByBucket = new Map<string, number[]>();
+    const perTierValuesByBucket = new Map<string, Map<string, number[]>>();
+    const perUserRows: Array<{ unit: string; bucket: string; tier: string; value: number }> = [];
 
-    for (const row of userMonthTotalsRaw) {
-      const ym = row.ym;
-      const days = daysByYm.get(ym) ?? 30;
+    for (const row of userBucketTotalsRaw) {
+      const bucket = row.bucket;
+      const days = daysByBucket.get(bucket) ?? 0;
       const value = days > 0 ? Number(row.total || 0) / days : 0;
+      perUserRows.push({ unit: row.userId, bucket, tier: row.tier, value });
 
-      const overall = perUserValuesByMonth.get(ym) || [];
+      const overall = perUserValuesByBucket.get(bucket) || [];
       overall.push(value);
-      perUserValuesByMonth.set(ym, overall);
+      perUserValuesByBucket.set(bucket, overall);
 
       const tierMap =
-        perTierValuesByMonth.get(ym) ||
+        perTierValuesByBucket.get(bucket) ||
         (() => {
           const created = new Map<string, number[]>();
-          perTierValuesByMonth.set(ym, created);
+          perTierValuesByBucket.set(bucket, created);
           return created;
         })();
 
@@ -232,34 +333,64 @@ export async function GET(request: Request) {
       };
     };
 
-    const userMonthlyContributions = months.map((ym) => {
-      const days = daysByYm.get(ym) ?? 30;
-      const agg = userAggByMonth.get(ym) || { total: 0, activeUserDays: 0 };
+    // Confidence intervals of the mean per bucket; tiers resample within the tier.
+    // Empty in rollup mode, which has no per-user rows.
+    const bootstrapOptions = { seed: bootstrapSeed, resamples: bootstrapSamples };
+    const overallIntervals = bootstrapMeans(perUserRows, userCount, bootstrapOptions);
+    const tierIntervals = new Map(
+      Object.entries(tierCounts)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([tier, users], i) => [
+          tier,
+          bootstrapMeans(
+            perUserRows.filter((row) => row.tier === tier),
+            users,
+            { ...bootstrapOptions, seed: bootstrapSeed + i + 1 }
+          ),
+        ])
+    );
+
+    const userContributionSeries = buckets.map((bucket) => {
+      const days = daysByBucket.get(bucket) ?? 0;
+      const agg = userAggByBucket.get(bucket) || { total: 0, activeUserDays: 0 };
       const total = agg.total;
 
       const byTier: Record<string, number> = {};
       const byTierP25: Record<string, number> = {};
       const byTierP50: Record<string, number> = {};
       const byTierP75: Record<string, number> = {};
+      const byTierCiLower: Record<string, number> = {};
+      const byTierCiUpper: Record<string, number> = {};
 
-      const tierAgg = userAggByMonthTier.get(ym);
+      const tierAgg = userAggByBucketTier.get(bucket);
       for (const [tier, users] of Object.entries(tierCounts)) {
         const tAgg = tierAgg?.get(tier) || { total: 0, activeUserDays: 0 };
         byTier[tier] = users > 0 && days > 0 ? tAgg.total / (users * days) : 0;
 
-        const tierActiveValues = perTierValuesByMonth.get(ym)?.get(tier) || [];
+        const tierActiveValues = perTierValuesByBucket.get(bucket)?.get(tier) || [];
         const tierQuantiles = computeQuantiles(tierActiveValues, users);
         byTierP25[tier] = tierQuantiles.p25;
         byTierP50[tier] = tierQuantiles.p50;
         byTierP75[tier] = tierQuantiles.p75;
+
+        const tierInterval = tierIntervals.get(tier)?.get(bucket);
+        if (tierInterval) {
+          byTierCiLower[tier] = tierInterval.lower;
+          byTierCiUpper[tier] = tierInterval.upper;
+        }
       }
 
-      const activeValues = perUserValuesByMonth.get(ym) || [];
+      const activeValues = perUserValuesByBucket.get(bucket) || [];
       const overallQuantiles = computeQuantiles(activeValues, userCount);
+      const value = userCount > 0 && days > 0 ? total / (userCount * days) : 0;
+
+      if (useRollup) {
+        return { date: bucket, value, byTier };
+      }
 
       return {
-        date: `${ym}-01`,
-        value: userCount > 0 && days > 0 ? total / (userCount * days) : 0,
+        date: bucket,
+        value,
         byTier,
         p25: overallQuantiles.p25,
         p50: overallQuantiles.p50,
@@ -267,16 +398,24 @@ export async function GET(request: Request) {
         byTierP25,
         byTierP50,
         byTierP75,
+        ...(bootstrapSamples > 0
+          ? {
+              ciLower: overallIntervals.get(bucket)?.lower ?? value,
+              ciUpper: overallIntervals.get(bucket)?.upper ?? value,
+              byTierCiLower,
+              byTierCiUpper,
+            }
+          : {}),
       };
     });
 
-    const userMonthlyActiveDayShare = months.map((ym) => {
-      const days = daysByYm.get(ym) ?? 30;
-      const agg = userAggByMonth.get(ym) || { total: 0, activeUserDays: 0 };
+    const userActiveDayShareSeries = buckets.map((bucket) => {
+      const days = daysByBucket.get(bucket) ?? 0;
+      const agg = userAggByBucket.get(bucket) || { total: 0, activeUserDays: 0 };
       const denom = userCount > 0 && days > 0 ? userCount * days : 0;
 
       const byTier: Record<string, number> = {};
-      const tierAgg = userAggByMonthTier.get(ym);
+      const tierAgg = userAggByBucketTier.get(bucket);
       for (const [tier, users] of Object.entries(tierCounts)) {
         const tAgg = tierAgg?.get(tier) || { total: 0, activeUserDays: 0 };
         const tDenom = users > 0 && days > 0 ? users * days : 0;
@@ -284,37 +423,39 @@ export async function GET(request: Request) {
       }
 
       return {
-        date: `${ym}-01`,
+        date: bucket,
         value: denom > 0 ? agg.activeUserDays / denom : 0,
         byTier,
       };
     });
 
-    const userMonthlyContribsPerActiveDay = months.map((ym) => {
-      const agg = userAggByMonth.get(ym) || { total: 0, activeUserDays: 0 };
+    const userContribsPerActiveDaySeries = buckets.map((bucket) => {
+      const agg = userAggByBucket.get(bucket) || { total: 0, activeUserDays: 0 };
       const total = agg.total;
       const byTier: Record<string, number> = {};
-      const tierAgg = userAggByMonthTier.get(ym);
+      const tierAgg = userAggByBucketTier.get(bucket);
       for (const [tier] of Object.entries(tierCounts)) {
         const tAgg = tierAgg?.get(tier) || { total: 0, activeUserDays: 0 };
         byTier[tier] = tAgg.activeUserDays > 0 ? tAgg.total / tAgg.activeUserDays : 0;
       }
 
       return {
-        date: `${ym}-01`,
+        date: bucket,
         value: agg.activeUserDays > 0 ? total / agg.activeUserDays : 0,
         byTier,
       };
     });
 
-    // Aggregate REPO metrics by month (secondary - for lines of code)
-    const repoMonthlyData = aggregateRepoMetricsByMonth(commitMetrics);
+    // Aggregate REPO metrics by bucket (secondary - for lines of code)
+    const repoBucketData = aggregateRepoMetricsByBucket(commitMetrics, granularity);
 
-    const prMonthlyData = aggregatePRMetricsByMonth(prMetrics);
-    const issueMonthlyData = aggregateIssueMetricsByMonth(issueMetrics);
+    const userCommitBucketData = aggregateRepoMetricsByBucket(userCommitMetrics, granularity);
+    const prBucketData = aggregatePRMetricsByBucket(prMetrics, granularity);
+    const contributionTypes = buildContributionTypeSeries(contributionTypeTotalsRaw);
+    const issueBucketData = aggregateIssueMetricsByBucket(issueMetrics, granularity);
 
     // Calculate summary from USER contribution data
-    const totalUserContributions = Array.from(userAggByMonth.values()).reduce(
+    const totalUserContributions = Array.from(userAggByBucket.values()).reduce(
       (sum, m) => sum + m.total,
       0
     );
@@ -342,9 +483,9 @@ export async function GET(request: Request) {
 
     // Average contributions per user per calendar-day (includes inactive days)
     const avgContributionsPerUserPerDay =
-      userMonthlyContributions.length > 0
-        ? userMonthlyContributions.reduce((sum, m) => sum + m.value, 0) /
-          userMonthlyContributions.length
+      userContributionSeries.length > 0
+        ? userContributionSeries.reduce((sum, m) => sum + m.value, 0) /
+          userContributionSeries.length
         : 0;
 
     const summary: GlobalMetrics = {
@@ -362,49 +503,88 @@ export async function GET(request: Request) {
       activeUsers: userCount,
       activeRepos: repoCount,
       periodStart:
-        userMonthlyContributions[0]?.date ||
-        repoMonthlyData[0]?.date ||
-        prMonthlyData[0]?.date ||
-        issueMonthlyData[0]?.date ||
+        userContributionSeries[0]?.date ||
+        repoBucketData[0]?.date ||
+        prBucketData[0]?.date ||
+        issueBucketData[0]?.date ||
         "",
       periodEnd:
-        userMonthlyContributions[userMonthlyContributions.length - 1]?.date ||
-        repoMonthlyData[repoMonthlyData.length - 1]?.date ||
-        prMonthlyData[prMonthlyData.length - 1]?.date ||
-        issueMonthlyData[issueMonthlyData.length - 1]?.date ||
+        userContributionSeries[userContributionSeries.length - 1]?.date ||
+        repoBucketData[repoBucketData.length - 1]?.date ||
+        prBucketData[prBucketData.length - 1]?.date ||
+        issueBucketData[issueBucketData.length - 1]?.date ||
         "",
     };
 
     // Build trend data - USER contributions for commits, REPO data for lines
     const trends: TrendData = {
       // User productivity - avg contributions per user per day
-      commits: userMonthlyContributions,
-      activeDayShare: userMonthlyActiveDayShare,
-      contributionsPerActiveDay: userMonthlyContribsPerActiveDay,
+      commits: userContributionSeries,
+      activeDayShare: userActiveDayShareSeries,
+      contributionsPerActiveDay: userContribsPerActiveDaySeries,
       // Lines of code from repo stats
-      linesOfCode: repoMonthlyData.map((m) => ({
+      linesOfCode: repoBucketData.map((m) => ({
         date: m.date,
         value: m.avgLinesPerCommit,
       })),
-      prMergeTime: prMonthlyData.map((m) => ({
+      userLinesOfCode: userCommitBucketData.map((m) => ({
+        date: m.date,
+        value: m.avgLinesPerCommit,
+      })),
+      contributorConcentration: concentrationRaw.map((row) => ({
+        date: row.bucket,
+        value: Number(row.hhi ?? 0),
+      })),
+      prMergeTime: prBucketData.map((m) => ({
         date: m.date,
         value: m.avgTimeToMergeHrs,
       })),
-      issueResolution: issueMonthlyData.map((m) => ({
+      prReviewCycles: prBucketData.flatMap((m) =>
+        m.avgReviewCycles === null ? [] : [{ date: m.date, value: m.avgReviewCycles }]
+      ),
+      prSize: prBucketData.flatMap((m) =>
+        m.avgLinesPerPR === null ? [] : [{ date: m.date, value: m.avgLinesPerPR }]
+      ),
+      issueResolution: issueBucketData.map((m) => ({
         date: m.date,
         value: m.avgResolutionHrs,
       })),
+      // Yearly contribution types per user per day
+      ...contributionTypes,
     };
 
+    const yearBuckets = bucketRange(start, end, "year");
+    for (const key of Object.keys(trends) as Array<keyof TrendData>) {
+      trends[key] =
+        key in contributionTypes
+          ? withTrendVariants(trends[key], yearBuckets, "year", rollingWindow)
+          : withTrendVariants(trends[key], buckets, granularity, rollingWindow);
+    }
+
     return NextResponse.json({
       summary,
       trends,
-      dataSource: "real",
+      dataSource: useRollup ? "rollup" : "real",
+      includeBots,
+      bootstrap: useRollup
+        ? null
+        : { resamples: bootstrapSamples, seed: bootstrapSeed, level: BOOTSTRAP_LEVEL },
+      filters: {
+        language,
+        userTier,
+        granularity,
+        rollingWindow,
+        startDate: start.toISOString(),
+        endDate: end.toISOString(),
+      },
       dataCounts: {
-        userContributions: userMonthTotalsRaw.length,
+        userContributions: userBucketTotalsRaw.length,
+        rollupDays: rollupRows.length,
         repoCommits: commitMetrics.length,
+        userRepoCommitWeeks: userCommitMetrics.length,
         repoPRDays: prMetrics.length,
         repoIssueDays: issueMetrics.length,
+        userContributionTypeYears: contributionTypeTotalsRaw.length,
       },
     });
   } catch (error) {
@@ -416,30 +596,154 @@ export async function GET(request: Request) {
   }
 }
 
-// Aggregate REPO commit data by month (for lines of code metrics)
-function aggregateRepoMetricsByMonth(
-  metrics: Array<{
+type UserAggByBucketRow = {
+  bucket: string;
+  total: number | null;
+  activeUserDays: number | null;
+};
+
+type UserAggByBucketTierRow = UserAggByBucketRow & { tier: string };
+
+type CommitMetricsRow = {
+  date: Date;
+  commitCount: number;
+  linesAdded: number;
+  linesRemoved: number;
+};
+
+type PRMetricsRow = {
+  date: Date;
+  prsOpened: number;
+  prsMerged: number;
+  avgTimeToMergeHrs: number | null;
+  avgReviewCycles: number | null;
+  avgLinesPerPR: number | null;
+};
+
+type IssueMetricsRow = {
+  date: Date;
+  issuesOpened: number;
+  issuesClosed: number;
+  avgResolutionHrs: number | null;
+};
+
+// Turn GlobalDailyMetrics rows into the shapes the raw-table queries return,
+// so both sources share the aggregation below.
+function fromRollupRows(
+  rows: Array<{
     date: Date;
-    commitCount: number;
-    linesAdded: number;
-    linesRemoved: number;
-  }>
+    totalContributions: number;
+    contributionsByTier: string;
+    activeUsers: number;
+    totalCommits: number;
+    totalLinesAdded: number;
+    totalLinesRemoved: number;
+    userCommits: number;
+    userLinesAdded: number;
+    userLinesRemoved: number;
+    totalPRsOpened: number;
+    totalPRsMerged: number;
+    avgTimeToMergeHrs: number | null;
+    avgReviewCycles: number | null;
+    avgLinesPerPR: number | null;
+    totalIssuesOpened: number;
+    totalIssuesClosed: number;
+    avgResolutionHrs: number | null;
+  }>,
+  granularity: Granularity
+) {
+  const byBucket = new Map<string, { total: number; activeUserDays: number }>();
+  const byBucketTier = new Map<string, { total: number; activeUserDays: number }>();
+
+  for (const row of rows) {
+    const bucket = bucketKey(row.date, granularity);
+    const agg = byBucket.get(bucket) || { total: 0, activeUserDays: 0 };
+    agg.total += row.totalContributions;
+    agg.activeUserDays += row.activeUsers;
+    byBucket.set(bucket, agg);
+
+    let tiers: Record<string, { total: number; activeUsers: number }> = {};
+    try {
+      tiers = JSON.parse(row.contributionsByTier);
+    } catch {
+      // Malformed rows only lose their tier breakdown
+    }
+    for (const [tier, agg] of Object.entries(tiers)) {
+      const key = `${bucket}|${tier}`;
+      const entry = byBucketTier.get(key) || { total: 0, activeUserDays: 0 };
+      entry.total += agg.total;
+      entry.activeUserDays += agg.activeUsers;
+      byBucketTier.set(key, entry);
+    }
+  }
+
+  return {
+    userAggByBucket: Array.from(byBucket.entries())
+      .map(([bucket, agg]): UserAggByBucketRow => ({ bucket, ...agg }))
+      .sort((a, b) => a.bucket.localeCompare(b.bucket)),
+    userAggByBucketTier: Array.from(byBucketTier.entries()).map(
+      ([key, agg]): UserAggByBucketTierRow => {
+        const [bucket, tier] = key.split("|");
+        return { bucket, tier, ...agg };
+      }
+    ),
+    commitMetrics: rows.map(
+      (row): CommitMetricsRow => ({
+        date: row.date,
+        commitCount: row.totalCommits,
+        linesAdded: row.totalLinesAdded,
+        linesRemoved: row.totalLinesRemoved,
+      })
+    ),
+    userCommitMetrics: rows.map(
+      (row): CommitMetricsRow => ({
+        date: row.date,
+        commitCount: row.userCommits,
+        linesAdded: row.userLinesAdded,
+        linesRemoved: row.userLinesRemoved,
+      })
+    ),
+    prMetrics: rows.map(
+      (row): PRMetricsRow => ({
+        date: row.date,
+        prsOpened: row.totalPRsOpened,
+        prsMerged: row.totalPRsMerged,
+        avgTimeToMergeHrs: row.avgTimeToMergeHrs,
+        avgReviewCycles: row.avgReviewCycles,
+        avgLinesPerPR: row.avgLinesPerPR,
+      })
+    ),
+    issueMetrics: rows.map(
+      (row): IssueMetricsRow => ({
+        date: row.date,
+        issuesOpened: row.totalIssuesOpened,
+        issuesClosed: row.totalIssuesClosed,
+        avgResolutionHrs: row.avgResolutionHrs,
+      })
+    ),
+  };
+}
+
+// Aggregate REPO commit data by bucket (for lines of code metrics)
+function aggregateRepoMetricsByBucket(
+  metrics: CommitMetricsRow[],
+  granularity: Granularity
 ): Array<{ date: string; avgLinesPerCommit: number }> {
-  const monthMap = new Map<string, { commits: number; lines: number }>();
+  const bucketMap = new Map<string, { commits: number; lines: number }>();
 
   for (const m of metrics) {
-    const monthKey = m.date.toISOString().slice(0, 7); // YYYY-MM
-    const existing = monthMap.get(monthKey) || { commits: 0, lines: 0 };
-    monthMap.set(monthKey, {
+    const key = bucketKey(m.date, granularity);
+    const existing = bucketMap.get(key) || { commits: 0, lines: 0 };
+    bucketMap.set(key, {
       commits: existing.commits + m.commitCount,
       lines: existing.lines + m.linesAdded + m.linesRemoved,
     });
   }
 
   const result: Array<{ date: string; avgLinesPerCommit: number }> = [];
-  for (const [month, data] of monthMap.entries()) {
+  for (const [key, data] of bucketMap.entries()) {
     result.push({
-      date: `${month}-01`,
+      date: key,
       avgLinesPerCommit: data.commits > 0 ? data.lines / data.commits : 0,
     });
   }
@@ -447,48 +751,75 @@ function aggregateRepoMetricsByMonth(
   return result.sort((a, b) => a.date.localeCompare(b.date));
 }
 
-function aggregatePRMetricsByMonth(
-  metrics: Array<{
-    date: Date;
-    prsMerged: number;
-    avgTimeToMergeHrs: number | null;
-  }>
-): Array<{ date: string; avgTimeToMergeHrs: number }> {
-  const monthMap = new Map<string, { merged: number; mergeHours: number }>();
+function aggregatePRMetricsByBucket(
+  metrics: PRMetricsRow[],
+  granularity: Granularity
+): Array<{
+  date: string;
+  avgTimeToMergeHrs: number;
+  avgReviewCycles: number | null;
+  avgLinesPerPR: number | null;
+}> {
+  // Review cycles and PR size are per opened PR; rows synced before those
+  // columns were filled carry nulls and are left out of their averages.
+  const bucketMap = new Map<
+    string,
+    {
+      merged: number;
+      mergeHours: number;
+      sizedOpened: number;
+      reviewCycles: number;
+      lines: number;
+    }
+  >();
 
   for (const m of metrics) {
-    const monthKey = m.date.toISOString().slice(0, 7);
-    const existing = monthMap.get(monthKey) || { merged: 0, mergeHours: 0 };
-    monthMap.set(monthKey, {
+    const key = bucketKey(m.date, granularity);
+    const existing = bucketMap.get(key) || {
+      merged: 0,
+      mergeHours: 0,
+      sizedOpened: 0,
+      reviewCycles: 0,
+      lines: 0,
+    };
+    const sized = m.avgReviewCycles !== null && m.avgLinesPerPR !== null;
+    bucketMap.set(key, {
       merged: existing.merged + m.prsMerged,
       mergeHours: existing.mergeHours + (m.avgTimeToMergeHrs || 0) * m.prsMerged,
+      sizedOpened: existing.sizedOpened + (sized ? m.prsOpened : 0),
+      reviewCycles: existing.reviewCycles + (sized ? (m.avgReviewCycles || 0) * m.prsOpened : 0),
+      lines: existing.lines + (sized ? (m.avgLinesPerPR || 0) * m.prsOpened : 0),
     });
   }
 
-  const result: Array<{ date: string; avgTimeToMergeHrs: number }> = [];
-  for (const [month, data] of monthMap.entries()) {
+  const result: Array<{
+    date: string;
+    avgTimeToMergeHrs: number;
+    avgReviewCycles: number | null;
+    avgLinesPerPR: number | null;
+  }> = [];
+  for (const [key, data] of bucketMap.entries()) {
     result.push({
-      date: `${month}-01`,
+      date: key,
       avgTimeToMergeHrs: data.merged > 0 ? data.mergeHours / data.merged : 0,
+      avgReviewCycles: data.sizedOpened > 0 ? data.reviewCycles / data.sizedOpened : null,
+      avgLinesPerPR: data.sizedOpened > 0 ? data.lines / data.sizedOpened : null,
     });
   }
 
   return result.sort((a, b) => a.date.localeCompare(b.date));
 }
 
-function aggregateIssueMetricsByMonth(
-  metrics: Array<{
-    date: Date;
-    issuesClosed: number;
-    avgResolutionHrs: number | null;
-  }>
+function aggregateIssueMetricsByBucket(
+  metrics: IssueMetricsRow[],
+  granularity: Granularity
 ): Array<{ date: string; avgResolutionHrs: number }> {
-  const monthMap = new Map<string, { closed: number; resolutionHours: number }>();
+  const bucketMap = new Map<string, { closed: number; resolutionHours: number }>();
 
   for (const m of metrics) {
-    const monthKey = m.date.toISOString().slice(0, 7);
-    const existing = monthMap.get(monthKey) || { closed: 0, resolutionHours: 0 };
-    monthMap.set(monthKey, {
+    const key = bucketKey(m.date, granularity);
+    const existing = bucketMap.get(key) || { closed: 0, resolutionHours: 0 };
+    bucketMap.set(key, {
       closed: existing.closed + m.issuesClosed,
       resolutionHours:
         existing.resolutionHours + (m.avgResolutionHrs || 0) * m.issuesClosed,
@@ -496,9 +827,9 @@ function aggregateIssueMetricsByMonth(
   }
 
   const result: Array<{ date: string; avgResolutionHrs: number }> = [];
-  for (const [month, data] of monthMap.entries()) {
+  for (const [key, data] of bucketMap.entries()) {
     result.push({
-      date: `${month}-01`,
+      date: key,
       avgResolutionHrs: data.closed > 0 ? data.resolutionHours / data.closed : 0,
     });
   }
@@ -506,6 +837,84 @@ function aggregateIssueMetricsByMonth(
   return result.sort((a, b) => a.date.localeCompare(b.date));
 }
 
+type ContributionTypeTotalsRow = {
+  year: number | bigint;
+  tier: string;
+  users: number | bigint;
+  periodEnd: number | bigint | Date | null;
+  commits: number | bigint | null;
+  pullRequests: number | bigint | null;
+  reviews: number | bigint | null;
+  issues: number | bigint | null;
+};
+
+// Turn yearly per-type totals into per-user-per-day series (one point per
+// year), so they sit on the same scale as the calendar-based commits series.
+// The current year is divided by the days covered so far, not 365.
+function buildContributionTypeSeries(rows: ContributionTypeTotalsRow[]) {
+  const keys = ["commits", "pullRequests", "reviews", "issues"] as const;
+  const byYear = new Map<
+    number,
+    {
+      days: number;
+      users: number;
+      totals: Record<(typeof keys)[number], number>;
+      byTier: Map<string, { users: number; totals: Record<(typeof keys)[number], number> }>;
+    }
+  >();
+
+  for (const row of rows) {
+    const year = Number(row.year);
+    const yearStart = Date.UTC(year, 0, 1);
+    const periodEnd = row.periodEnd == null ? null : new Date(Number(row.periodEnd)).getTime();
+    const coveredEnd = Math.min(
+      periodEnd ?? Date.UTC(year, 11, 31, 23, 59, 59),
+      Date.UTC(year, 11, 31, 23, 59, 59)
+    );
+    const days = Math.max(1, Math.ceil((coveredEnd - yearStart) / (24 * 60 * 60 * 1000)));
+
+    const entry = byYear.get(year) || {
+      days,
+      users: 0,
+      totals: { commits: 0, pullRequests: 0, reviews: 0, issues: 0 },
+      byTier: new Map(),
+    };
+    entry.days = Math.max(entry.days, days);
+
+    const users = Number(row.users || 0);
+    const tierTotals = { commits: 0, pullRequests: 0, reviews: 0, issues: 0 };
+    for (const key of keys) {
+      tierTotals[key] = Number(row[key] || 0);
+      entry.totals[key] += tierTotals[key];
+    }
+    entry.users += users;
+    entry.byTier.set(row.tier, { users, totals: tierTotals });
+    byYear.set(year, entry);
+  }
+
+  const years = Array.from(byYear.keys()).sort((a, b) => a - b);
+  const series = (key: (typeof keys)[number]) =>
+    years.map((year) => {
+      const entry = byYear.get(year)!;
+      const byTier: Record<string, number> = {};
+      for (const [tier, t] of entry.byTier) {
+        byTier[tier] = t.users > 0 ? t.totals[key] / (t.users * entry.days) : 0;
+      }
+      return {
+        date: `${year}-01-01`,
+        value: entry.users > 0 ? entry.totals[key] / (entry.users * entry.days) : 0,
+        byTier,
+      };
+    });
+
+  return {
+    commitContributions: series("commits"),
+    pullRequestContributions: series("pullRequests"),
+    reviewContributions: series("reviews"),
+    issueContributions: series("issues"),
+  };
+}
+
 function getEmptySummary(): GlobalMetrics {
   return {
     totalCommits: 0,
@@ -532,7 +941,15 @@ function getEmptyTrends(): TrendData {
     activeDayShare: [],
     contributionsPerActiveDay: [],
     linesOfCode: [],
+    userLinesOfCode: [],
+    contributorConcentration: [],
     prMergeTime: [],
+    prReviewCycles: [],
+    prSize: [],
     issueResolution: [],
+    commitContributions: [],
+    pullRequestContributions: [],
+    reviewContributions: [],
+    issueContributions: [],
   };
 }
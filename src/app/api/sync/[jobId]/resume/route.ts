@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  isResumableJobType,
+  reopenJobWithLock,
+  startSyncJob,
+  toSyncJobProgress,
+} from "@/lib/sync-jobs";
+
+// POST /api/sync/:jobId/resume - Continue a failed or cancelled sync job from its checkpoint
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  try {
+    const job = await prisma.syncJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      return NextResponse.json({ error: "Sync job not found" }, { status: 404 });
+    }
+
+    if (!isResumableJobType(job.jobType)) {
+      return NextResponse.json(
+        {
+          error: "Sync job is not resumable",
+          message: `${job.jobType} jobs have no checkpoint to resume from`,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (!toSyncJobProgress(job).resumable) {
+      return NextResponse.json(
+        {
+          error: "Sync job is not resumable",
+          message: `Job is ${job.status}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const { conflict } = await reopenJobWithLock(job);
+    if (conflict) {
+      return NextResponse.json(
+        {
+          error: "Sync already running",
+          message: `Job ${conflict.id} (${conflict.jobType}) is still ${conflict.status}`,
+          jobId: conflict.id,
+        },
+        { status: 409 }
+      );
+    }
+
+    startSyncJob(job.id);
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: job.id,
+        status: "running",
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error resuming sync job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to resume sync job",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
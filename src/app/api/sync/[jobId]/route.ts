@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requestJobCancel, toSyncJobProgress } from "@/lib/sync-jobs";
+
+// GET /api/sync/:jobId - Get progress for a single sync job
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  try {
+    const job = await prisma.syncJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      return NextResponse.json({ error: "Sync job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toSyncJobProgress(job));
+  } catch (error) {
+    console.error("Error getting sync job:", error);
+    return NextResponse.json(
+      { error: "Failed to get sync job" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/sync/:jobId - Cancel a pending or running job
+// The job stops after the user or repo it is currently processing.
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  try {
+    const job = await prisma.syncJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      return NextResponse.json({ error: "Sync job not found" }, { status: 404 });
+    }
+
+    const requested = await requestJobCancel(jobId);
+    if (!requested) {
+      return NextResponse.json(
+        {
+          error: "Sync job is not active",
+          message: `Job is ${job.status}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobId,
+        status: "cancelling",
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error cancelling sync job:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel sync job" },
+      { status: 500 }
+    );
+  }
+}
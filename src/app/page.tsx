@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TrendLineChart } from "@/components/charts/trend-line-chart";
@@ -14,7 +14,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { GlobalMetrics, TrendData, SyncStatus } from "@/types/metrics";
+import type {
+  GlobalMetrics,
+  Granularity,
+  TimeSeriesDataPoint,
+  TimeSeriesValues,
+  TrendData,
+  SyncStatus,
+} from "@/types/metrics";
 
 type ContributionMetric =
   | "mean"
@@ -26,6 +33,21 @@ type ContributionMetric =
 
 type TierOption = "all" | "top" | "mid" | "casual";
 
+// Daily series are limited to a year by the API, so the day view shows the last 12 months
+function metricsUrl(granularity: Granularity) {
+  const params = new URLSearchParams({ granularity });
+  if (granularity === "day") {
+    const now = new Date();
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 0));
+    const start = new Date(
+      Date.UTC(end.getUTCFullYear() - 1, end.getUTCMonth(), end.getUTCDate() + 1)
+    );
+    params.set("startDate", start.toISOString().slice(0, 10));
+    params.set("endDate", `${end.toISOString().slice(0, 10)}T23:59:59.999Z`);
+  }
+  return `/api/metrics?${params}`;
+}
+
 export default function Dashboard() {
   const [metrics, setMetrics] = useState<GlobalMetrics | null>(null);
   const [trends, setTrends] = useState<TrendData | null>(null);
@@ -34,12 +56,13 @@ export default function Dashboard() {
   const [contributionMetric, setContributionMetric] =
     useState<ContributionMetric>("mean");
   const [tier, setTier] = useState<TierOption>("all");
+  const [granularity, setGranularity] = useState<Granularity>("month");
 
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     setIsLoading(true);
     try {
       const [metricsRes, syncRes] = await Promise.all([
-        fetch("/api/metrics"),
+        fetch(metricsUrl(granularity)),
         fetch("/api/sync"),
       ]);
 
@@ -54,11 +77,11 @@ export default function Dashboard() {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [granularity]);
 
   useEffect(() => {
     fetchData();
-  }, []);
+  }, [fetchData]);
 
   const contributionChart = (() => {
     const baseSeries =
@@ -68,56 +91,51 @@ export default function Dashboard() {
           ? trends?.contributionsPerActiveDay || []
           : trends?.commits || [];
 
-    const data = baseSeries.map((point) => {
-      const tierKey = tier === "all" ? null : tier;
-
-      if (contributionMetric === "activeDayShare") {
-        return {
-          date: point.date,
-          value: tierKey ? point.byTier?.[tierKey] ?? 0 : point.value,
-        };
-      }
-
-      if (contributionMetric === "contributionsPerActiveDay") {
-        return {
-          date: point.date,
-          value: tierKey ? point.byTier?.[tierKey] ?? 0 : point.value,
-        };
-      }
+    const tierKey = tier === "all" ? null : tier;
 
+    // Reads the selected metric/tier from a point or one of its variants
+    const pick = (point: TimeSeriesValues) => {
       if (contributionMetric === "median") {
-        return {
-          date: point.date,
-          value: tierKey
-            ? point.byTierP50?.[tierKey] ?? point.byTier?.[tierKey] ?? 0
-            : point.p50 ?? point.value,
-        };
+        return tierKey
+          ? point.byTierP50?.[tierKey] ?? point.byTier?.[tierKey] ?? 0
+          : point.p50 ?? point.value;
       }
 
       if (contributionMetric === "p25") {
-        return {
-          date: point.date,
-          value: tierKey
-            ? point.byTierP25?.[tierKey] ?? point.byTier?.[tierKey] ?? 0
-            : point.p25 ?? point.value,
-        };
+        return tierKey
+          ? point.byTierP25?.[tierKey] ?? point.byTier?.[tierKey] ?? 0
+          : point.p25 ?? point.value;
       }
 
       if (contributionMetric === "p75") {
-        return {
-          date: point.date,
-          value: tierKey
-            ? point.byTierP75?.[tierKey] ?? point.byTier?.[tierKey] ?? 0
-            : point.p75 ?? point.value,
-        };
+        return tierKey
+          ? point.byTierP75?.[tierKey] ?? point.byTier?.[tierKey] ?? 0
+          : point.p75 ?? point.value;
       }
 
-      // mean
-      return {
-        date: point.date,
-        value: tierKey ? point.byTier?.[tierKey] ?? 0 : point.value,
-      };
-    });
+      // mean, active-day share and contributions per active day
+      return tierKey ? point.byTier?.[tierKey] ?? 0 : point.value;
+    };
+
+    // Bootstrap intervals exist for the mean only
+    const interval = (point: TimeSeriesDataPoint) => {
+      if (contributionMetric !== "mean") return {};
+      return tierKey
+        ? { ciLower: point.byTierCiLower?.[tierKey], ciUpper: point.byTierCiUpper?.[tierKey] }
+        : { ciLower: point.ciLower, ciUpper: point.ciUpper };
+    };
+
+    const data: TimeSeriesDataPoint[] = baseSeries.map((point) => ({
+      date: point.date,
+      value: pick(point),
+      ...interval(point),
+      variants: Object.fromEntries(
+        Object.entries(point.variants ?? {}).map(([variant, values]) => [
+          variant,
+          { value: pick(values) },
+        ])
+      ),
+    }));
 
     const tierLabel =
       tier === "all"
@@ -223,12 +241,29 @@ export default function Dashboard() {
               <h2 className="text-lg font-semibold text-gray-900">
                 Productivity Trends Over Time
               </h2>
-              <TabsList>
-                <TabsTrigger value="commits">Contributions</TabsTrigger>
-                <TabsTrigger value="lines">Lines of Code</TabsTrigger>
-                <TabsTrigger value="prs">PR Velocity</TabsTrigger>
-                <TabsTrigger value="issues">Issue Resolution</TabsTrigger>
-              </TabsList>
+              <div className="flex items-center gap-3">
+                <Select
+                  value={granularity}
+                  onValueChange={(v) => setGranularity(v as Granularity)}
+                >
+                  <SelectTrigger size="sm" className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day">Daily (last year)</SelectItem>
+                    <SelectItem value="week">Weekly</SelectItem>
+                    <SelectItem value="month">Monthly</SelectItem>
+                    <SelectItem value="quarter">Quarterly</SelectItem>
+                    <SelectItem value="year">Yearly</SelectItem>
+                  </SelectContent>
+                </Select>
+                <TabsList>
+                  <TabsTrigger value="commits">Contributions</TabsTrigger>
+                  <TabsTrigger value="lines">Lines of Code</TabsTrigger>
+                  <TabsTrigger value="prs">PR Velocity</TabsTrigger>
+                  <TabsTrigger value="issues">Issue Resolution</TabsTrigger>
+                </TabsList>
+              </div>
             </div>
 
 	            <Card>
@@ -281,6 +316,7 @@ export default function Dashboard() {
 
                         <TrendLineChart
                           data={contributionChart.data}
+                          granularity={granularity}
                           title={contributionChart.title}
                           yAxisLabel={contributionChart.yAxisLabel}
                           color={contributionChart.color}
@@ -294,13 +330,32 @@ export default function Dashboard() {
                   {isLoading ? (
                     <ChartSkeleton />
                   ) : (
-                    <TrendLineChart
-                      data={trends?.linesOfCode || []}
-                      title="Average Lines Changed per Commit"
-                      yAxisLabel="Lines"
-                      color="#10b981"
-                      valueFormatter={(v) => v.toFixed(0)}
-                    />
+                    <div className="space-y-8">
+                      <TrendLineChart
+                        data={trends?.linesOfCode || []}
+                        granularity={granularity}
+                        title="Average Lines Changed per Commit"
+                        yAxisLabel="Lines"
+                        color="#10b981"
+                        valueFormatter={(v) => v.toFixed(0)}
+                      />
+                      <TrendLineChart
+                        data={trends?.userLinesOfCode || []}
+                        granularity={granularity}
+                        title="Average Lines Changed per Commit (Sampled Users)"
+                        yAxisLabel="Lines"
+                        color="#059669"
+                        valueFormatter={(v) => v.toFixed(0)}
+                      />
+                      <TrendLineChart
+                        data={trends?.contributorConcentration || []}
+                        granularity={granularity}
+                        title="Contributor Concentration (Commit HHI per Repo)"
+                        yAxisLabel="HHI"
+                        color="#047857"
+                        valueFormatter={(v) => v.toFixed(2)}
+                      />
+                    </div>
                   )}
                 </TabsContent>
 
@@ -308,13 +363,32 @@ export default function Dashboard() {
                   {isLoading ? (
                     <ChartSkeleton />
                   ) : (
-                    <TrendLineChart
-                      data={trends?.prMergeTime || []}
-                      title="Average PR Merge Time"
-                      yAxisLabel="Hours"
-                      color="#f59e0b"
-                      valueFormatter={(v) => `${v.toFixed(1)}h`}
-                    />
+                    <div className="space-y-8">
+                      <TrendLineChart
+                        data={trends?.prMergeTime || []}
+                        granularity={granularity}
+                        title="Average PR Merge Time"
+                        yAxisLabel="Hours"
+                        color="#f59e0b"
+                        valueFormatter={(v) => `${v.toFixed(1)}h`}
+                      />
+                      <TrendLineChart
+                        data={trends?.prReviewCycles || []}
+                        granularity={granularity}
+                        title="Average Review Rounds per PR"
+                        yAxisLabel="Rounds"
+                        color="#d97706"
+                        valueFormatter={(v) => v.toFixed(2)}
+                      />
+                      <TrendLineChart
+                        data={trends?.prSize || []}
+                        granularity={granularity}
+                        title="Average PR Size"
+                        yAxisLabel="Lines Changed"
+                        color="#b45309"
+                        valueFormatter={(v) => v.toFixed(0)}
+                      />
+                    </div>
                   )}
                 </TabsContent>
 
@@ -324,6 +398,7 @@ export default function Dashboard() {
                   ) : (
                     <TrendLineChart
                       data={trends?.issueResolution || []}
+                      granularity={granularity}
                       title="Average Issue Resolution Time"
                       yAxisLabel="Hours"
                       color="#ef4444"
@@ -1,8 +1,9 @@
 "use client";
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
@@ -17,7 +18,34 @@ import {
   AI_MILESTONES,
   MILESTONE_COLORS,
 } from "@/config/ai-milestones";
-import type { TimeSeriesDataPoint } from "@/types/metrics";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { bucketKey } from "@/lib/time-buckets";
+import type { Granularity, TimeSeriesDataPoint, TrendVariant } from "@/types/metrics";
+
+const TICK_FORMATS: Record<Granularity, string> = {
+  day: "MMM d yy",
+  week: "MMM d yy",
+  month: "MMM yy",
+  quarter: "QQQ yyyy",
+  year: "yyyy",
+};
+
+type VariantOption = "raw" | TrendVariant;
+
+const VARIANT_LABELS: Record<VariantOption, string> = {
+  raw: "As reported",
+  rolling: "Rolling mean",
+  yoy: "Year-over-year change",
+  seasonal: "Seasonally adjusted",
+};
+
+const formatPercentChange = (v: number) => `${v >= 0 ? "+" : ""}${(v * 100).toFixed(1)}%`;
 
 interface TrendLineChartProps {
   data: TimeSeriesDataPoint[];
@@ -29,6 +57,8 @@ interface TrendLineChartProps {
   majorMilestonesOnly?: boolean;
   height?: number;
   valueFormatter?: (value: number) => string;
+  // Bucket size of the series; milestones snap to the bucket containing them
+  granularity?: Granularity;
 }
 
 export function TrendLineChart({
@@ -40,7 +70,43 @@ export function TrendLineChart({
   majorMilestonesOnly = true,
   height = 400,
   valueFormatter = (v) => v.toLocaleString(),
+  granularity = "month",
 }: TrendLineChartProps) {
+  const [variant, setVariant] = useState<VariantOption>("raw");
+
+  // Variants the API attached to this series (see src/lib/trend-variants.ts)
+  const availableVariants = useMemo(() => {
+    const present = new Set<TrendVariant>();
+    for (const point of data) {
+      for (const key of Object.keys(point.variants ?? {})) {
+        present.add(key as TrendVariant);
+      }
+    }
+    return (["rolling", "yoy", "seasonal"] as const).filter((v) => present.has(v));
+  }, [data]);
+
+  const activeVariant =
+    variant !== "raw" && availableVariants.includes(variant) ? variant : "raw";
+
+  // The confidence band (ciLower/ciUpper) belongs to the reported values only
+  const chartData = useMemo(
+    () =>
+      data.map((point) => ({
+        date: point.date,
+        value: activeVariant === "raw" ? point.value : point.variants?.[activeVariant]?.value,
+        ci:
+          activeVariant === "raw" && point.ciLower !== undefined && point.ciUpper !== undefined
+            ? [point.ciLower, point.ciUpper]
+            : undefined,
+      })),
+    [data, activeVariant]
+  );
+  const hasBand = chartData.some((point) => point.ci !== undefined);
+
+  // YoY change is a ratio whatever the unit of the underlying series
+  const formatValue = activeVariant === "yoy" ? formatPercentChange : valueFormatter;
+  const valueLabel =
+    activeVariant === "yoy" ? "YoY change" : yAxisLabel || "Value";
   // Get date range from data
   const dateRange = useMemo(() => {
     if (!data.length) return { min: new Date(), max: new Date() };
@@ -51,7 +117,7 @@ export function TrendLineChart({
     };
   }, [data]);
 
-  // Filter milestones to show and map to nearest month
+  // Filter milestones to show and map to the bucket containing them
   const visibleMilestones = useMemo(() => {
     if (!showMilestones) return [];
     return AI_MILESTONES.filter((m) => {
@@ -61,12 +127,10 @@ export function TrendLineChart({
         ? inRange && m.significance === "major"
         : inRange;
     }).map((m) => {
-      // Convert milestone date to first of month to match data format
-      const mDate = new Date(m.date);
-      const monthStart = `${mDate.getFullYear()}-${String(mDate.getMonth() + 1).padStart(2, "0")}-01`;
-      return { ...m, chartDate: monthStart };
+      // Convert milestone date to its bucket start to match data format
+      return { ...m, chartDate: bucketKey(new Date(m.date), granularity) };
     });
-  }, [showMilestones, dateRange, majorMilestonesOnly]);
+  }, [showMilestones, dateRange, majorMilestonesOnly, granularity]);
 
   // Custom tooltip
   const CustomTooltip = ({
@@ -75,10 +139,12 @@ export function TrendLineChart({
     label,
   }: {
     active?: boolean;
-    payload?: Array<{ value: number }>;
+    payload?: Array<{ payload?: (typeof chartData)[number] }>;
     label?: string;
   }) => {
     if (!active || !payload?.length || !label) return null;
+    const point = payload[0].payload;
+    const value = point?.value;
 
     const milestone = visibleMilestones.find((m) => m.date === label);
 
@@ -88,8 +154,13 @@ export function TrendLineChart({
           {format(parseISO(label), "MMM d, yyyy")}
         </p>
         <p className="text-sm text-gray-600">
-          {yAxisLabel || "Value"}: {valueFormatter(payload[0].value as number)}
+          {valueLabel}: {value === undefined ? "–" : formatValue(value)}
         </p>
+        {point?.ci && (
+          <p className="text-xs text-gray-500">
+            95% CI: {formatValue(point.ci[0])} – {formatValue(point.ci[1])}
+          </p>
+        )}
         {milestone && (
           <div className="mt-2 border-t pt-2">
             <p
@@ -115,26 +186,43 @@ export function TrendLineChart({
 
   return (
     <div className="w-full">
-      <h3 className="mb-4 text-lg font-semibold text-gray-900">{title}</h3>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        {availableVariants.length > 0 && (
+          <Select value={activeVariant} onValueChange={(v) => setVariant(v as VariantOption)}>
+            <SelectTrigger size="sm" className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(["raw", ...availableVariants] as VariantOption[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {VARIANT_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
       <ResponsiveContainer width="100%" height={height}>
-        <LineChart
-          data={data}
+        <ComposedChart
+          data={chartData}
           margin={{ top: 20, right: 30, left: 20, bottom: 60 }}
         >
           <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200" />
           <XAxis
             dataKey="date"
-            tickFormatter={(date) => format(parseISO(date), "MMM yy")}
+            tickFormatter={(date) => format(parseISO(date), TICK_FORMATS[granularity])}
             angle={-45}
             textAnchor="end"
             height={60}
             tick={{ fontSize: 12 }}
           />
           <YAxis
+            tickFormatter={activeVariant === "yoy" ? formatPercentChange : undefined}
             label={
               yAxisLabel
                 ? {
-                    value: yAxisLabel,
+                    value: valueLabel,
                     angle: -90,
                     position: "insideLeft",
                     style: { textAnchor: "middle" },
@@ -146,6 +234,19 @@ export function TrendLineChart({
           <Tooltip content={<CustomTooltip />} />
           <Legend />
 
+          {/* Bootstrap confidence band of the mean */}
+          {hasBand && (
+            <Area
+              type="monotone"
+              dataKey="ci"
+              stroke="none"
+              fill={color}
+              fillOpacity={0.15}
+              isAnimationActive={false}
+              name="95% CI"
+            />
+          )}
+
           {/* Main trend line */}
           <Line
             type="monotone"
@@ -154,9 +255,11 @@ export function TrendLineChart({
             strokeWidth={2}
             dot={false}
             activeDot={{ r: 6 }}
-            name={yAxisLabel || "Value"}
+            name={valueLabel}
           />
 
+          {activeVariant === "yoy" && <ReferenceLine y={0} stroke="#9ca3af" />}
+
           {/* AI Milestone markers */}
           {visibleMilestones.map((milestone) => (
             <ReferenceLine
@@ -175,7 +278,7 @@ export function TrendLineChart({
               }}
             />
           ))}
-        </LineChart>
+        </ComposedChart>
       </ResponsiveContainer>
 
       {/* Milestone Legend */}
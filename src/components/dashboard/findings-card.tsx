@@ -3,6 +3,8 @@
 import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
+type ConfidenceInterval = { lower: number; upper: number };
+
 type FindingsResponse = {
   cohort: {
     users: number;
@@ -23,6 +25,7 @@ type FindingsResponse = {
       contributionsPerUserPerDay: number;
       activeDayShare: number;
       contributionsPerActiveDay: number;
+      contributionsPerUserPerDayCI: ConfidenceInterval | null;
     };
     post: {
       startMonth: string;
@@ -33,6 +36,7 @@ type FindingsResponse = {
       contributionsPerUserPerDay: number;
       activeDayShare: number;
       contributionsPerActiveDay: number;
+      contributionsPerUserPerDayCI: ConfidenceInterval | null;
     };
   };
   tiers: {
@@ -69,8 +73,14 @@ type FindingsResponse = {
       p90: number;
       pctPositive: number;
       n: number;
+      meanCI: ConfidenceInterval | null;
     };
   };
+  bootstrap: {
+    resamples: number;
+    seed: number;
+    level: number;
+  };
   adoption: {
     usersWithAI: number;
     reposWithAI: number;
@@ -82,6 +92,16 @@ function formatPct(p: number) {
   return `${(p * 100).toFixed(1)}%`;
 }
 
+function formatCI(ci: ConfidenceInterval | null | undefined) {
+  if (!ci) return null;
+  return (
+    <span className="text-xs text-gray-500">
+      {" "}
+      [{ci.lower.toFixed(2)}, {ci.upper.toFixed(2)}]
+    </span>
+  );
+}
+
 export function FindingsCard() {
   const [data, setData] = useState<FindingsResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -153,11 +173,13 @@ export function FindingsCard() {
                 Avg contributions/user/day:{" "}
                 <span className="font-semibold">
                   {summary.pre.toFixed(2)}
-                </span>{" "}
+                </span>
+                {formatCI(data.periods.pre.contributionsPerUserPerDayCI)}{" "}
                 ({data.periods.pre.startMonth}–{data.periods.pre.endMonth}) →{" "}
                 <span className="font-semibold">
                   {summary.post.toFixed(2)}
-                </span>{" "}
+                </span>
+                {formatCI(data.periods.post.contributionsPerUserPerDayCI)}{" "}
                 ({data.periods.post.startMonth}–{data.periods.post.endMonth}){" "}
                 <span className="ml-2 font-semibold text-green-700">
                   {summary.pctChange >= 0 ? "+" : ""}
@@ -166,6 +188,8 @@ export function FindingsCard() {
               </p>
               <p className="text-xs text-gray-500">
                 From GitHub contribution calendars (includes commits, PRs, issues, reviews).
+                {data.bootstrap.resamples > 0 &&
+                  ` Brackets: ${formatPct(data.bootstrap.level)} bootstrap interval over users (${data.bootstrap.resamples} resamples, seed ${data.bootstrap.seed}).`}
               </p>
             </div>
 
@@ -248,7 +272,8 @@ export function FindingsCard() {
                 Mean Δ:{" "}
                 <span className="font-semibold">
                   {data.distribution.deltaContributionsPerUserPerDay.mean.toFixed(2)}
-                </span>{" "}
+                </span>
+                {formatCI(data.distribution.deltaContributionsPerUserPerDay.meanCI)}{" "}
                 <span className="mx-2 text-gray-400">•</span>
                 P25/P75:{" "}
                 <span className="font-semibold">
@@ -2,7 +2,9 @@
 
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import type { SyncStatus } from "@/types/metrics";
+import type { SyncJobProgress, SyncStatus } from "@/types/metrics";
+
+const PROGRESS_POLL_MS = 3000;
 
 interface SyncButtonProps {
   syncStatus: SyncStatus | null;
@@ -12,30 +14,56 @@ interface SyncButtonProps {
 export function SyncButton({ syncStatus, onSyncComplete }: SyncButtonProps) {
   const [isSyncing, setIsSyncing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<SyncJobProgress | null>(null);
+
+  // Sync runs as a background job; poll its progress until it finishes.
+  const waitForJob = async (jobId: string) => {
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, PROGRESS_POLL_MS));
+      const response = await fetch(`/api/sync/${jobId}`);
+      if (!response.ok) {
+        throw new Error("Failed to get sync progress");
+      }
+
+      const job: SyncJobProgress = await response.json();
+      setProgress(job);
+      if (job.status === "completed") return;
+      if (job.status === "failed") {
+        throw new Error(job.errorMessage || "Sync failed");
+      }
+      if (job.status === "cancelled") {
+        throw new Error("Sync cancelled");
+      }
+    }
+  };
 
   const handleSync = async () => {
     setIsSyncing(true);
     setError(null);
+    setProgress(null);
 
     try {
       const response = await fetch("/api/sync", {
         method: "POST",
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        const data = await response.json();
         throw new Error(data.message || "Sync failed");
       }
 
+      await waitForJob(data.jobId);
       onSyncComplete?.();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Sync failed");
     } finally {
       setIsSyncing(false);
+      setProgress(null);
     }
   };
 
   const isRunning = isSyncing || syncStatus?.isRunning;
+  const currentJob = progress ?? syncStatus?.currentJob ?? null;
 
   return (
     <div className="flex items-center gap-4">
@@ -78,6 +106,16 @@ export function SyncButton({ syncStatus, onSyncComplete }: SyncButtonProps) {
           <span>
             {syncStatus.usersTracked} users, {syncStatus.reposTracked} repos
           </span>
+          {isRunning && currentJob && (
+            <span className="ml-2">
+              {currentJob.phase === "users" &&
+                currentJob.currentBand != null &&
+                currentJob.totalBands != null &&
+                `Band ${currentJob.currentBand + 1}/${currentJob.totalBands} · `}
+              {currentJob.phase === "stats" && "Waiting on repo stats · "}
+              {currentJob.usersDone} users, {currentJob.reposDone} repos done
+            </span>
+          )}
           {syncStatus.lastSyncAt && (
             <span className="ml-2">
               Last sync: {new Date(syncStatus.lastSyncAt).toLocaleString()}
@@ -178,12 +178,14 @@ async function updateUserAggregate(userId: string) {
 export async function syncAISignals(options?: {
   maxRepoPages?: number;
   perPage?: number;
+  onRepoDone?: (reposScanned: number) => Promise<void>;
 }) {
   const maxRepoPages = options?.maxRepoPages ?? 2;
   const perPage = options?.perPage ?? 50;
 
   const repos = await prisma.sampledRepo.findMany();
   const affectedUsers = new Set<string>();
+  let reposScanned = 0;
 
   for (const repo of repos) {
     const owner = repo.owner;
@@ -280,6 +282,8 @@ export async function syncAISignals(options?: {
     }
 
     await updateRepoAggregate(repo.id);
+    reposScanned++;
+    await options?.onRepoDone?.(reposScanned);
   }
 
   for (const userId of affectedUsers) {
@@ -0,0 +1,148 @@
+import { prisma } from "./prisma";
+
+// Expired rows that carry an ETag/Last-Modified are kept this long so they can
+// still be revalidated with a 304; rows without validators go as soon as they expire.
+const retentionHoursRaw = Number(process.env.API_CACHE_RETENTION_HOURS ?? 7 * 24);
+const API_CACHE_RETENTION_HOURS = Number.isFinite(retentionHoursRaw)
+  ? Math.max(0, retentionHoursRaw)
+  : 7 * 24;
+
+const STATS_FLUSH_INTERVAL_MS = 30_000;
+
+type CacheOutcome = "hits" | "misses" | "revalidations";
+
+export interface CacheEndpointStats {
+  endpoint: string;
+  rows: number;
+  expiredRows: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  revalidations: number;
+}
+
+// Endpoint family of a cache key, e.g. "search" for "search:users:...".
+export function cacheEndpoint(cacheKey: string) {
+  return cacheKey.split(":")[0];
+}
+
+// Counted in memory and flushed in the background so lookups stay one query.
+const pendingCounts = new Map<string, Record<CacheOutcome, number>>();
+let lastFlushAt = Date.now();
+
+export function recordCacheLookup(cacheKey: string, outcome: CacheOutcome) {
+  const endpoint = cacheEndpoint(cacheKey);
+  const counts = pendingCounts.get(endpoint) ?? { hits: 0, misses: 0, revalidations: 0 };
+  counts[outcome]++;
+  pendingCounts.set(endpoint, counts);
+
+  if (Date.now() - lastFlushAt >= STATS_FLUSH_INTERVAL_MS) {
+    void flushCacheStats().catch((error) => {
+      console.warn("[APICache] failed to flush stats:", error);
+    });
+  }
+}
+
+export async function flushCacheStats() {
+  lastFlushAt = Date.now();
+  const entries = Array.from(pendingCounts.entries());
+  pendingCounts.clear();
+  if (entries.length === 0) return;
+
+  await prisma.$transaction(
+    entries.map(([endpoint, counts]) =>
+      prisma.aPICacheStats.upsert({
+        where: { endpoint },
+        create: { endpoint, ...counts },
+        update: {
+          hits: { increment: counts.hits },
+          misses: { increment: counts.misses },
+          revalidations: { increment: counts.revalidations },
+        },
+      })
+    )
+  );
+}
+
+// Delete expired rows: immediately when they can't be revalidated, after the
+// retention window when they can.
+export async function evictExpiredCache(now = new Date()) {
+  const retentionCutoff = new Date(
+    now.getTime() - API_CACHE_RETENTION_HOURS * 60 * 60 * 1000
+  );
+
+  const { count } = await prisma.aPICache.deleteMany({
+    where: {
+      OR: [
+        { expiresAt: { lte: now }, etag: null, lastModified: null },
+        { expiresAt: { lte: retentionCutoff } },
+      ],
+    },
+  });
+  return count;
+}
+
+// Remove every entry whose key starts with `prefix` (e.g. "search:users:").
+export async function purgeCache(prefix: string) {
+  const { count } = await prisma.aPICache.deleteMany({
+    where: { cacheKey: { startsWith: prefix } },
+  });
+  return count;
+}
+
+export async function getCacheStats(now = new Date()): Promise<CacheEndpointStats[]> {
+  await flushCacheStats();
+
+  const [sizes, lookups] = await Promise.all([
+    prisma.$queryRaw<
+      {
+        endpoint: string;
+        rows: number | bigint;
+        expiredRows: number | bigint | null;
+        bytes: number | bigint | null;
+      }[]
+    >`
+      SELECT
+        endpoint as endpoint,
+        COUNT(*) as rows,
+        SUM(CASE WHEN expiresAt <= ${now.getTime()} THEN 1 ELSE 0 END) as expiredRows,
+        SUM(LENGTH(responseData)) as bytes
+      FROM APICache
+      GROUP BY endpoint
+    `,
+    prisma.aPICacheStats.findMany(),
+  ]);
+
+  const byEndpoint = new Map<string, CacheEndpointStats>();
+  const entryFor = (endpoint: string) => {
+    let entry = byEndpoint.get(endpoint);
+    if (!entry) {
+      entry = {
+        endpoint,
+        rows: 0,
+        expiredRows: 0,
+        bytes: 0,
+        hits: 0,
+        misses: 0,
+        revalidations: 0,
+      };
+      byEndpoint.set(endpoint, entry);
+    }
+    return entry;
+  };
+
+  for (const row of sizes) {
+    const entry = entryFor(row.endpoint);
+    entry.rows = Number(row.rows);
+    entry.expiredRows = Number(row.expiredRows ?? 0);
+    entry.bytes = Number(row.bytes ?? 0);
+  }
+  for (const row of lookups) {
+    const entry = entryFor(row.endpoint);
+    entry.hits = row.hits;
+    entry.misses = row.misses;
+    entry.revalidations = row.revalidations;
+  }
+
+  return Array.from(byEndpoint.values()).sort((a, b) => b.bytes - a.bytes);
+}
@@ -0,0 +1,86 @@
+import { mulberry32 } from "./random";
+
+// Bootstrap confidence intervals for per-user means. Each replicate resamples
+// the population of users with replacement (users without rows count as 0) and
+// the same draw is applied to every bucket, so intervals of different buckets
+// come from one consistent set of resampled cohorts.
+
+const resamplesRaw = Number(process.env.BOOTSTRAP_RESAMPLES ?? 200);
+export const BOOTSTRAP_RESAMPLES_ENV = Number.isFinite(resamplesRaw)
+  ? Math.max(0, Math.floor(resamplesRaw))
+  : 200;
+
+const seedRaw = Number(process.env.BOOTSTRAP_SEED ?? 42);
+export const BOOTSTRAP_SEED_ENV = Number.isFinite(seedRaw) ? seedRaw : 42;
+
+// Two-sided level of the percentile interval
+export const BOOTSTRAP_LEVEL = 0.95;
+
+export type BootstrapOptions = {
+  seed: number;
+  resamples: number;
+  level?: number;
+};
+
+export type ConfidenceInterval = { lower: number; upper: number };
+
+// rows: one value per user and bucket; population: users the mean is taken over
+export function bootstrapMeans(
+  rows: Array<{ unit: string; bucket: string; value: number }>,
+  population: number,
+  options: BootstrapOptions
+): Map<string, ConfidenceInterval> {
+  const intervals = new Map<string, ConfidenceInterval>();
+  if (options.resamples <= 0 || rows.length === 0) return intervals;
+
+  // Sorted so a seed gives the same draw regardless of row order
+  const units = Array.from(new Set(rows.map((row) => row.unit))).sort();
+  const unitIndex = new Map(units.map((unit, i) => [unit, i]));
+  const buckets = Array.from(new Set(rows.map((row) => row.bucket)));
+  const bucketIndex = new Map(buckets.map((bucket, i) => [bucket, i]));
+  const n = Math.max(population, units.length);
+
+  const rowUnits = Int32Array.from(rows, (row) => unitIndex.get(row.unit)!);
+  const rowBuckets = Int32Array.from(rows, (row) => bucketIndex.get(row.bucket)!);
+  const rowValues = Float64Array.from(rows, (row) => row.value);
+
+  const rng = mulberry32(options.seed);
+  const counts = new Int32Array(units.length);
+  const sums = new Float64Array(buckets.length);
+  const replicates = buckets.map(() => new Float64Array(options.resamples));
+
+  for (let b = 0; b < options.resamples; b++) {
+    counts.fill(0);
+    for (let draw = 0; draw < n; draw++) {
+      // Indices past the units with rows are users contributing 0
+      const pick = Math.floor(rng() * n);
+      if (pick < units.length) counts[pick] += 1;
+    }
+
+    sums.fill(0);
+    for (let i = 0; i < rowValues.length; i++) {
+      sums[rowBuckets[i]] += counts[rowUnits[i]] * rowValues[i];
+    }
+    for (let k = 0; k < buckets.length; k++) {
+      replicates[k][b] = sums[k] / n;
+    }
+  }
+
+  const alpha = (1 - (options.level ?? BOOTSTRAP_LEVEL)) / 2;
+  buckets.forEach((bucket, k) => {
+    const sorted = replicates[k].sort();
+    intervals.set(bucket, {
+      lower: quantileSorted(sorted, alpha),
+      upper: quantileSorted(sorted, 1 - alpha),
+    });
+  });
+
+  return intervals;
+}
+
+function quantileSorted(sorted: Float64Array, p: number) {
+  const k = (sorted.length - 1) * p;
+  const f = Math.floor(k);
+  const c = Math.min(sorted.length - 1, f + 1);
+  return sorted[f] + (sorted[c] - sorted[f]) * (k - f);
+}
@@ -0,0 +1,85 @@
+// Bot and automation detection for repo activity (PRs, issues, contributor stats).
+//
+// An actor counts as a bot when any of these match:
+//   - GitHub reports the account type as "Bot" (GitHub Apps, e.g. dependabot[bot])
+//   - the login ends in "[bot]" or "-bot"
+//   - the login is a known automation account (plus BOT_LOGINS)
+//   - the PR/issue title looks generated (plus BOT_TITLE_PATTERN)
+
+const KNOWN_BOT_LOGINS = [
+  "allcontributors",
+  "codecov",
+  "dependabot",
+  "dependabot-preview",
+  "deepsource-autofix",
+  "github-actions",
+  "greenkeeper",
+  "imgbot",
+  "mergify",
+  "pre-commit-ci",
+  "pyup-bot",
+  "renovate",
+  "semantic-release-bot",
+  "snyk-bot",
+  "stale",
+  "web-flow",
+];
+
+// Titles of dependency bumps and other generated PRs, including ones pushed
+// through a human or shared account
+const KNOWN_BOT_TITLE_PATTERNS = [
+  /^bump \S+ from \S+ to \S+/i,
+  /^(build|chore|fix)\(deps(-dev)?\): (bump|update) /i,
+  /^update dependency \S+ to /i,
+  /^update \S+ digest to /i,
+  /^\[snyk\] /i,
+  /^\[pre-commit\.ci\] /i,
+  /^dependency dashboard$/i,
+];
+
+// Extra logins, comma-separated, e.g. "my-release-bot,ci-user"
+const extraBotLogins = (process.env.BOT_LOGINS ?? "")
+  .split(",")
+  .map((login) => login.trim().toLowerCase())
+  .filter(Boolean);
+
+const botLogins = new Set([...KNOWN_BOT_LOGINS, ...extraBotLogins]);
+
+// One extra case-insensitive regex matched against titles
+const extraTitlePattern = (() => {
+  const raw = (process.env.BOT_TITLE_PATTERN ?? "").trim();
+  if (!raw) return null;
+  try {
+    return new RegExp(raw, "i");
+  } catch {
+    console.warn(`[Bots] ignoring invalid BOT_TITLE_PATTERN: ${raw}`);
+    return null;
+  }
+})();
+
+const titlePatterns = extraTitlePattern
+  ? [...KNOWN_BOT_TITLE_PATTERNS, extraTitlePattern]
+  : KNOWN_BOT_TITLE_PATTERNS;
+
+export function isBotLogin(login: string | null | undefined, type?: string | null) {
+  if (type === "Bot") return true;
+  if (!login) return false;
+
+  const normalized = login.toLowerCase();
+  if (normalized.endsWith("[bot]")) return true;
+  if (normalized.endsWith("-bot")) return true;
+  return botLogins.has(normalized);
+}
+
+export function isBotTitle(title: string | null | undefined) {
+  if (!title) return false;
+  return titlePatterns.some((pattern) => pattern.test(title.trim()));
+}
+
+export function isBotActivity(item: {
+  authorLogin: string | null;
+  authorType: string | null;
+  title?: string | null;
+}) {
+  return isBotLogin(item.authorLogin, item.authorType) || isBotTitle(item.title);
+}
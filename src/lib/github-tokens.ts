@@ -0,0 +1,227 @@
+import { createHash } from "node:crypto";
+import { Octokit } from "@octokit/rest";
+import { graphql } from "@octokit/graphql";
+import { GitHubRateLimiter, type RateLimitType } from "./rate-limiter";
+import { syncRateLimitState } from "./rate-limit-store";
+import { githubFetch } from "./github-transport";
+
+const requestTimeoutRaw = Number(process.env.GITHUB_REQUEST_TIMEOUT_MS ?? 30_000);
+const GITHUB_REQUEST_TIMEOUT_MS = Number.isFinite(requestTimeoutRaw)
+  ? Math.max(0, requestTimeoutRaw)
+  : 30_000;
+
+// Fallback pause for a token whose rate-limit error carries no reset time.
+const TOKEN_COOLDOWN_MS = 60_000;
+
+// GitHub asks clients to wait at least a minute when a secondary limit
+// response says nothing about when to retry.
+const SECONDARY_LIMIT_DEFAULT_WAIT_MS = 60_000;
+
+export interface GitHubToken {
+  // Safe to log; the token value itself never leaves this module.
+  label: string;
+  // Stable across processes so persisted limiter state follows the token.
+  key: string;
+  octokit: Octokit;
+  graphql: typeof graphql;
+  limiter: GitHubRateLimiter;
+  // Set once GitHub rejects the credentials; the token is skipped from then on.
+  disabled: boolean;
+}
+
+// GITHUB_TOKENS is a comma-separated list; GITHUB_TOKEN alone still works.
+function readTokens(): string[] {
+  const raw = process.env.GITHUB_TOKENS ?? process.env.GITHUB_TOKEN ?? "";
+  const tokens = Array.from(
+    new Set(
+      raw
+        .split(",")
+        .map((token) => token.trim())
+        .filter(Boolean)
+    )
+  );
+  // Keep one unauthenticated client so a missing token fails per request, as before
+  return tokens.length > 0 ? tokens : [""];
+}
+
+const tokens: GitHubToken[] = readTokens().map((token, index) => ({
+  label: `token-${index + 1}`,
+  key: createHash("sha256").update(token).digest("hex").slice(0, 16),
+  octokit: new Octokit({
+    auth: token || undefined,
+    request: {
+      timeout: GITHUB_REQUEST_TIMEOUT_MS,
+      fetch: githubFetch,
+    },
+  }),
+  graphql: graphql.defaults({
+    headers: {
+      authorization: `token ${token}`,
+    },
+    request: {
+      timeout: GITHUB_REQUEST_TIMEOUT_MS,
+      fetch: githubFetch,
+    },
+  }),
+  limiter: new GitHubRateLimiter(),
+  disabled: false,
+}));
+
+const limitersByKey = new Map(tokens.map((token) => [token.key, token.limiter]));
+
+function usableTokens() {
+  const usable = tokens.filter((token) => !token.disabled);
+  if (usable.length === 0) {
+    throw new Error("All GitHub tokens were rejected (401); check GITHUB_TOKENS");
+  }
+  return usable;
+}
+
+// Pick the token with the most budget left for this type. When every token is
+// inside its buffer or paused, wait on the one that frees up first.
+export async function pickToken(type: RateLimitType): Promise<GitHubToken> {
+  await syncRateLimitState(limitersByKey);
+  const candidates = usableTokens();
+
+  const ranked = [...candidates].sort(
+    (a, b) => b.limiter.available(type) - a.limiter.available(type)
+  );
+  if (ranked[0].limiter.available(type) > 0) {
+    return ranked[0];
+  }
+
+  const soonest = [...candidates].sort(
+    (a, b) => a.limiter.usableAt(type).getTime() - b.limiter.usableAt(type).getTime()
+  )[0];
+  await soonest.limiter.waitIfNeeded(type);
+  return soonest;
+}
+
+export function getHeader(error: unknown, name: string): string | undefined {
+  if (!error || typeof error !== "object") return undefined;
+  const response = (error as Record<string, unknown>).response;
+  if (!response || typeof response !== "object") return undefined;
+  const headers = (response as Record<string, unknown>).headers;
+  if (!headers || typeof headers !== "object") return undefined;
+  const value = (headers as Record<string, unknown>)[name];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+// Primary limit: this token's hourly budget is spent. Secondary limits carry
+// `retry-after` and park the token for that long instead.
+function isPrimaryRateLimit(error: unknown) {
+  return (
+    getHeader(error, "x-ratelimit-remaining") === "0" &&
+    getHeader(error, "retry-after") === undefined
+  );
+}
+
+// How long a token must wait after a secondary (abuse) rate limit response,
+// or null when the error is not one. GitHub signals these with 403/429 plus
+// `retry-after`, or with a "secondary rate limit" message.
+export function getSecondaryLimitWaitMs(
+  status: number | undefined,
+  error: unknown
+): number | null {
+  if (status !== 403 && status !== 429) return null;
+
+  const retryAfter = Number(getHeader(error, "retry-after"));
+  if (Number.isFinite(retryAfter) && retryAfter >= 0) {
+    return retryAfter * 1000;
+  }
+
+  const message =
+    error && typeof error === "object"
+      ? (error as Record<string, unknown>).message
+      : undefined;
+  if (typeof message === "string" && /secondary rate limit|abuse/i.test(message)) {
+    const reset = Number(getHeader(error, "x-ratelimit-reset"));
+    return Number.isFinite(reset) && reset > 0
+      ? Math.max(0, reset * 1000 - Date.now())
+      : SECONDARY_LIMIT_DEFAULT_WAIT_MS;
+  }
+
+  return null;
+}
+
+// Decide whether a failed request should move on to another token. Bad
+// credentials retire the token; an exhausted budget parks it until reset and a
+// secondary limit parks it for its Retry-After.
+export function failoverToken(
+  token: GitHubToken,
+  type: RateLimitType,
+  status: number | undefined,
+  error: unknown
+): boolean {
+  if (status === 401) {
+    token.disabled = true;
+    console.warn(`[GitHub] ${token.label} rejected (401); removing it from the pool`);
+    return true;
+  }
+
+  if ((status === 403 || status === 429) && isPrimaryRateLimit(error)) {
+    const reset = Number(getHeader(error, "x-ratelimit-reset"));
+    const resetAt = Number.isFinite(reset) && reset > 0
+      ? new Date(reset * 1000)
+      : new Date(Date.now() + TOKEN_COOLDOWN_MS);
+    token.limiter.markExhausted(type, resetAt);
+    console.warn(
+      `[GitHub] ${token.label} hit a ${type} rate limit; parked until ${resetAt.toISOString()}`
+    );
+    return true;
+  }
+
+  const secondaryWaitMs = getSecondaryLimitWaitMs(status, error);
+  if (secondaryWaitMs !== null) {
+    const pausedUntil = new Date(Date.now() + secondaryWaitMs);
+    token.limiter.pause(pausedUntil);
+    console.warn(
+      `[GitHub] ${token.label} hit a secondary rate limit; parked until ${pausedUntil.toISOString()}`
+    );
+    return true;
+  }
+
+  return false;
+}
+
+// Combined budget across the pool, plus a per-token breakdown for monitoring.
+export function getTokenPoolStatus() {
+  const active = tokens.filter((token) => !token.disabled);
+  const perToken = tokens.map((token) => ({
+    label: token.label,
+    disabled: token.disabled,
+    pausedUntil: token.limiter.pausedUntil(),
+    ...token.limiter.getStatus(),
+  }));
+
+  // Requests only stall once every token is parked by a secondary limit
+  const pauses = active
+    .map((token) => token.limiter.pausedUntil())
+    .filter((pause): pause is Date => pause !== null);
+  const pausedUntil =
+    active.length > 0 && pauses.length === active.length
+      ? new Date(Math.min(...pauses.map((pause) => pause.getTime())))
+      : null;
+
+  const combine = (type: RateLimitType) => {
+    const states = active.map((token) => token.limiter.getStatus()[type]);
+    const resetAt = states.reduce<Date | null>(
+      (earliest, state) =>
+        !earliest || state.resetAt < earliest ? state.resetAt : earliest,
+      null
+    );
+    return {
+      remaining: states.reduce((sum, state) => sum + state.remaining, 0),
+      limit: states.reduce((sum, state) => sum + state.limit, 0),
+      resetAt: resetAt ?? new Date(),
+    };
+  };
+
+  return {
+    rest: combine("rest"),
+    search: combine("search"),
+    graphql: combine("graphql"),
+    tokens: perToken,
+    pausedUntil,
+  };
+}
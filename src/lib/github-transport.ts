@@ -0,0 +1,196 @@
+import { createHash } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// GITHUB_TRANSPORT selects how Octokit and GraphQL requests reach GitHub:
+//   live   - straight to the API (default)
+//   record - to the API, saving every response as a fixture file
+//   replay - served from fixture files only; nothing leaves the machine
+export type GitHubTransportMode = "live" | "record" | "replay";
+
+export const GITHUB_TRANSPORT: GitHubTransportMode = (() => {
+  const raw = (process.env.GITHUB_TRANSPORT ?? "").trim().toLowerCase();
+  return raw === "record" || raw === "replay" ? raw : "live";
+})();
+
+const GITHUB_FIXTURES_DIR =
+  process.env.GITHUB_FIXTURES_DIR ?? path.join(process.cwd(), "fixtures", "github");
+
+// Request windows that end at "now" (contribution calendars, user PR searches)
+// and cutoffs that pick what to request next must come out the same on replay
+// as when recorded, so record and replay run on a session clock: record starts
+// it when first asked and saves the start as SESSION_FILE next to the fixtures;
+// replay reads it back. It only moves through githubSleep.
+const SESSION_FILE = "session.json";
+
+interface FixtureSession {
+  recordedAt: string;
+}
+
+let frozenNow: Date | null = null;
+
+// "Now" for building GitHub request windows; the real clock in live mode.
+export function githubNow(): Date {
+  if (GITHUB_TRANSPORT === "live") return new Date();
+  if (frozenNow) return new Date(frozenNow);
+
+  const file = path.join(GITHUB_FIXTURES_DIR, SESSION_FILE);
+  if (GITHUB_TRANSPORT === "record") {
+    frozenNow = new Date();
+    const session: FixtureSession = { recordedAt: frozenNow.toISOString() };
+    mkdirSync(GITHUB_FIXTURES_DIR, { recursive: true });
+    writeFileSync(file, JSON.stringify(session, null, 2));
+  } else {
+    try {
+      const session = JSON.parse(readFileSync(file, "utf8")) as FixtureSession;
+      frozenNow = new Date(session.recordedAt);
+    } catch {
+      throw new Error(
+        `[GitHub] no ${SESSION_FILE} in ${GITHUB_FIXTURES_DIR}; record the fixtures again with GITHUB_TRANSPORT=record`
+      );
+    }
+  }
+  return new Date(frozenNow);
+}
+
+// Wait before a request whose timing matters to the sync (e.g. re-polling
+// pending stats). Record and replay advance the session clock by `ms`; replay
+// skips the wait itself since the responses are already on disk.
+export async function githubSleep(ms: number) {
+  if (ms <= 0) return;
+  if (GITHUB_TRANSPORT !== "replay") {
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+  if (GITHUB_TRANSPORT !== "live") {
+    frozenNow = new Date(githubNow().getTime() + ms);
+  }
+}
+
+// Headers worth replaying: paging links, cache validators and rate-limit state.
+const RECORDED_HEADERS = [
+  "content-type",
+  "etag",
+  "last-modified",
+  "link",
+  "retry-after",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+  "x-ratelimit-resource",
+  "x-ratelimit-used",
+];
+
+// Conditional headers would make recordings depend on what was cached at the
+// time, so record and replay always ask for full responses.
+const CONDITIONAL_HEADERS = ["if-none-match", "if-modified-since"];
+
+interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface FixtureFile {
+  request: { method: string; url: string; body: string | null };
+  // Successive responses for the same request, e.g. a 202 while stats are
+  // computed followed by the 200. Replay serves them in order, then repeats the last.
+  responses: RecordedResponse[];
+}
+
+function requestUrl(input: Parameters<typeof fetch>[0]) {
+  if (typeof input === "string") return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+function fixturePath(method: string, url: string, body: string | null) {
+  const { pathname, search } = new URL(url);
+  const hash = createHash("sha256")
+    .update(`${method} ${pathname}${search}\n${body ?? ""}`)
+    .digest("hex")
+    .slice(0, 16);
+  const slug = `${method}${pathname}`
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 80);
+  return path.join(GITHUB_FIXTURES_DIR, `${slug}-${hash}.json`);
+}
+
+function toResponse(recorded: RecordedResponse) {
+  // 204/304 responses may not carry a body
+  const body = recorded.status === 204 || recorded.status === 304 ? null : recorded.body;
+  return new Response(body, { status: recorded.status, headers: recorded.headers });
+}
+
+function withoutConditionalHeaders(init?: RequestInit): RequestInit | undefined {
+  if (!init?.headers) return init;
+  const headers = new Headers(init.headers);
+  for (const name of CONDITIONAL_HEADERS) headers.delete(name);
+  return { ...init, headers };
+}
+
+// Fixtures written by this process, so a new recording session replaces old
+// files instead of appending to them.
+const recorded = new Map<string, FixtureFile>();
+const replayPositions = new Map<string, number>();
+
+async function recordFetch(
+  input: Parameters<typeof fetch>[0],
+  init: RequestInit | undefined,
+  method: string,
+  url: string,
+  body: string | null
+) {
+  const response = await fetch(input, withoutConditionalHeaders(init));
+  const text = await response.text();
+
+  const headers: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value !== null) headers[name] = value;
+  }
+  const entry: RecordedResponse = { status: response.status, headers, body: text };
+
+  const file = fixturePath(method, url, body);
+  const fixture = recorded.get(file) ?? { request: { method, url, body }, responses: [] };
+  fixture.responses.push(entry);
+  recorded.set(file, fixture);
+
+  await mkdir(GITHUB_FIXTURES_DIR, { recursive: true });
+  await writeFile(file, JSON.stringify(fixture, null, 2));
+
+  return toResponse(entry);
+}
+
+async function replayFetch(method: string, url: string, body: string | null) {
+  const file = fixturePath(method, url, body);
+  let fixture: FixtureFile;
+  try {
+    fixture = JSON.parse(await readFile(file, "utf8")) as FixtureFile;
+  } catch {
+    throw new Error(
+      `[GitHub] no recorded fixture for ${method} ${url} (expected ${path.basename(file)}); record it with GITHUB_TRANSPORT=record`
+    );
+  }
+
+  const position = replayPositions.get(file) ?? 0;
+  replayPositions.set(file, position + 1);
+  return toResponse(fixture.responses[Math.min(position, fixture.responses.length - 1)]);
+}
+
+// `fetch` implementation handed to Octokit and the GraphQL client.
+// Authorization headers are never part of a fixture or its key.
+export const githubFetch: typeof fetch = async (input, init) => {
+  if (GITHUB_TRANSPORT === "live") {
+    return fetch(input, init);
+  }
+
+  const method = (init?.method ?? "GET").toUpperCase();
+  const url = requestUrl(input);
+  const body = typeof init?.body === "string" ? init.body : null;
+
+  return GITHUB_TRANSPORT === "record"
+    ? recordFetch(input, init, method, url, body)
+    : replayFetch(method, url, body);
+};
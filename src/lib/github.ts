@@ -1,30 +1,14 @@
-import { Octokit } from "@octokit/rest";
-import { graphql } from "@octokit/graphql";
-import { rateLimiter } from "./rate-limiter";
+import type { Octokit } from "@octokit/rest";
+import {
+  failoverToken,
+  getSecondaryLimitWaitMs,
+  getTokenPoolStatus,
+  pickToken,
+  type GitHubToken,
+} from "./github-tokens";
+import type { RateLimitType } from "./rate-limiter";
 import { prisma } from "./prisma";
-
-const requestTimeoutRaw = Number(process.env.GITHUB_REQUEST_TIMEOUT_MS ?? 30_000);
-const GITHUB_REQUEST_TIMEOUT_MS = Number.isFinite(requestTimeoutRaw)
-  ? Math.max(0, requestTimeoutRaw)
-  : 30_000;
-
-// Initialize Octokit with auth token
-const octokit = new Octokit({
-  auth: process.env.GITHUB_TOKEN,
-  request: {
-    timeout: GITHUB_REQUEST_TIMEOUT_MS,
-  },
-});
-
-// Initialize GraphQL client
-const graphqlWithAuth = graphql.defaults({
-  headers: {
-    authorization: `token ${process.env.GITHUB_TOKEN}`,
-  },
-  request: {
-    timeout: GITHUB_REQUEST_TIMEOUT_MS,
-  },
-});
+import { cacheEndpoint, recordCacheLookup } from "./api-cache";
 
 // Cache TTL in seconds
 const CACHE_TTL = {
@@ -90,6 +74,11 @@ function getStatusCode(error: unknown): number | undefined {
   return undefined;
 }
 
+const secondaryLimitRetriesRaw = Number(process.env.GITHUB_SECONDARY_LIMIT_RETRIES ?? 5);
+const GITHUB_SECONDARY_LIMIT_RETRIES = Number.isFinite(secondaryLimitRetriesRaw)
+  ? Math.max(0, secondaryLimitRetriesRaw)
+  : 5;
+
 function isRetryableError(error: unknown) {
   const status = getStatusCode(error);
   if (status && [408, 429, 500, 502, 503, 504].includes(status)) return true;
@@ -123,6 +112,12 @@ async function withRetries<T>(fn: () => Promise<T>, context: string): Promise<T>
       return await fn();
     } catch (error) {
       lastError = error;
+
+      // Secondary limits park the token; withGitHubToken moves to another one
+      if (getSecondaryLimitWaitMs(getStatusCode(error), error) !== null) {
+        throw error;
+      }
+
       if (attempt === GITHUB_RETRY_ATTEMPTS || !isRetryableError(error)) {
         throw error;
       }
@@ -140,46 +135,225 @@ async function withRetries<T>(fn: () => Promise<T>, context: string): Promise<T>
   throw lastError;
 }
 
-// Helper to get cached data or fetch fresh
-async function getCachedOrFetch<T>(
-  cacheKey: string,
-  fetchFn: () => Promise<T>,
-  ttlSeconds: number
+// Run a request on the pool token with the most budget left. Retries stay on
+// the same token; bad credentials, an exhausted budget and a secondary limit
+// move to the next. Once every token is exhausted or parked, pickToken waits
+// for the one that frees up first. A request that keeps hitting secondary
+// limits fails after GITHUB_SECONDARY_LIMIT_RETRIES of them.
+async function withGitHubToken<T>(
+  type: RateLimitType,
+  context: string,
+  fn: (token: GitHubToken) => Promise<T>
 ): Promise<T> {
-  if (apiCacheDisabled || ttlSeconds <= 0) {
-    return fetchFn();
+  let secondaryLimitHits = 0;
+  for (;;) {
+    const token = await pickToken(type);
+    try {
+      return await withRetries(() => fn(token), `${context} via ${token.label}`);
+    } catch (error) {
+      const status = getStatusCode(error);
+      if (!failoverToken(token, type, status, error)) {
+        throw error;
+      }
+      if (
+        getSecondaryLimitWaitMs(status, error) !== null &&
+        ++secondaryLimitHits > GITHUB_SECONDARY_LIMIT_RETRIES
+      ) {
+        console.warn(
+          `[GitHub] secondary rate limit (${context}); giving up after ${GITHUB_SECONDARY_LIMIT_RETRIES} retries`
+        );
+        throw error;
+      }
+    }
   }
+}
 
-  // Check cache first
+async function restRequest<R extends { headers: object }>(
+  type: "rest" | "search",
+  context: string,
+  request: (octokit: Octokit, token: GitHubToken) => Promise<R>
+): Promise<R> {
+  return withGitHubToken(type, context, async (token) => {
+    const response = await request(token.octokit, token);
+    token.limiter.updateFromHeaders(
+      response.headers as Record<string, string>,
+      type
+    );
+    return response;
+  });
+}
+
+function getPartialGraphqlData(error: unknown): Record<string, unknown> | null {
+  if (!error || typeof error !== "object") return null;
+  const e = error as Record<string, unknown>;
+  if (e.name !== "GraphqlResponseError") return null;
+  return e.data && typeof e.data === "object"
+    ? (e.data as Record<string, unknown>)
+    : null;
+}
+
+// Queries include RATE_LIMIT_FIELDS, so the budget is read off the response,
+// including partial responses that come back as GraphqlResponseError.
+async function graphqlRequest<T extends object>(
+  context: string,
+  query: string,
+  variables: Record<string, unknown>
+): Promise<T> {
+  return withGitHubToken("graphql", context, async (token) => {
+    try {
+      const data = await token.graphql<T>(query, variables);
+      const { rateLimit } = data as { rateLimit?: GraphqlRateLimit | null };
+      if (rateLimit) {
+        token.limiter.updateFromGraphql(rateLimit);
+      }
+      return data;
+    } catch (error) {
+      const rateLimit = getPartialGraphqlData(error)?.rateLimit as
+        | GraphqlRateLimit
+        | null
+        | undefined;
+      if (rateLimit) {
+        token.limiter.updateFromGraphql(rateLimit);
+      }
+      throw error;
+    }
+  });
+}
+
+async function readCache<T>(cacheKey: string): Promise<T | undefined> {
   const cached = await prisma.aPICache.findUnique({
     where: { cacheKey },
   });
 
   if (cached && cached.expiresAt > new Date()) {
+    recordCacheLookup(cacheKey, "hits");
     return JSON.parse(cached.responseData) as T;
   }
+  recordCacheLookup(cacheKey, "misses");
+  return undefined;
+}
 
-  // Fetch fresh data
-  const data = await fetchFn();
+type CacheValidators = {
+  etag: string | null;
+  lastModified: string | null;
+  tokenKey: string | null;
+};
 
-  // Store in cache
+async function writeCache<T>(
+  cacheKey: string,
+  data: T,
+  ttlSeconds: number,
+  validators?: CacheValidators
+) {
   await prisma.aPICache.upsert({
     where: { cacheKey },
     create: {
       cacheKey,
-      endpoint: cacheKey.split(":")[0],
+      endpoint: cacheEndpoint(cacheKey),
       responseData: JSON.stringify(data),
       expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+      ...validators,
     },
     update: {
       responseData: JSON.stringify(data),
       expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+      ...validators,
     },
   });
+}
+
+// Helper to get cached data or fetch fresh
+async function getCachedOrFetch<T>(
+  cacheKey: string,
+  fetchFn: () => Promise<T>,
+  ttlSeconds: number,
+  shouldCache: (data: T) => boolean = () => true
+): Promise<T> {
+  if (apiCacheDisabled || ttlSeconds <= 0) {
+    return fetchFn();
+  }
+
+  // Check cache first
+  const cached = await readCache<T>(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  // Fetch fresh data
+  const data = await fetchFn();
+
+  // Store in cache
+  if (shouldCache(data)) {
+    await writeCache(cacheKey, data, ttlSeconds);
+  }
 
   return data;
 }
 
+type ConditionalHeaders = {
+  "if-none-match"?: string;
+  "if-modified-since"?: string;
+};
+
+// Like getCachedOrFetch for REST endpoints, but expired entries are
+// revalidated with If-None-Match / If-Modified-Since. A 304 doesn't count
+// against the REST budget and just extends the cached entry. GitHub's ETags
+// vary by token, so the validators are only sent from the token that got them;
+// any other token does a full fetch and takes the entry over.
+async function getCachedOrRevalidate<
+  T,
+  R extends { headers: { etag?: string; "last-modified"?: string } },
+>(
+  cacheKey: string,
+  type: "rest" | "search",
+  context: string,
+  request: (octokit: Octokit, headers: ConditionalHeaders) => Promise<R>,
+  select: (response: R) => T,
+  ttlSeconds: number
+): Promise<T> {
+  if (apiCacheDisabled || ttlSeconds <= 0) {
+    return select(await restRequest(type, context, (octokit) => request(octokit, {})));
+  }
+
+  const cached = await prisma.aPICache.findUnique({
+    where: { cacheKey },
+  });
+  if (cached && cached.expiresAt > new Date()) {
+    recordCacheLookup(cacheKey, "hits");
+    return JSON.parse(cached.responseData) as T;
+  }
+
+  const conditional: ConditionalHeaders = {};
+  if (cached?.etag) conditional["if-none-match"] = cached.etag;
+  if (cached?.lastModified) conditional["if-modified-since"] = cached.lastModified;
+
+  let tokenKey: string | null = null;
+  try {
+    const response = await restRequest(type, context, (octokit, token) => {
+      tokenKey = token.key;
+      return request(octokit, cached?.tokenKey === token.key ? conditional : {});
+    });
+    const data = select(response);
+    recordCacheLookup(cacheKey, "misses");
+    await writeCache(cacheKey, data, ttlSeconds, {
+      etag: response.headers.etag ?? null,
+      lastModified: response.headers["last-modified"] ?? null,
+      tokenKey,
+    });
+    return data;
+  } catch (error) {
+    if (cached && cached.tokenKey === tokenKey && getStatusCode(error) === 304) {
+      recordCacheLookup(cacheKey, "revalidations");
+      await prisma.aPICache.update({
+        where: { cacheKey },
+        data: { expiresAt: new Date(Date.now() + ttlSeconds * 1000) },
+      });
+      return JSON.parse(cached.responseData) as T;
+    }
+    throw error;
+  }
+}
+
 // Search for users by contribution count (for stratified sampling)
 export async function searchUsers(
   minFollowers: number,
@@ -188,8 +362,6 @@ export async function searchUsers(
   page = 1,
   order: "asc" | "desc" = "desc"
 ) {
-  await rateLimiter.waitIfNeeded("search");
-
   const query = maxFollowers
     ? `followers:${minFollowers}..${maxFollowers} type:user`
     : `followers:>=${minFollowers} type:user`;
@@ -199,22 +371,17 @@ export async function searchUsers(
   return getCachedOrFetch(
     cacheKey,
     async () => {
-      const response = await withRetries(
-        () =>
+      const response = await restRequest(
+        "search",
+        `search:users:${minFollowers}-${maxFollowers ?? "plus"}:${page}:${order}`,
+        (octokit) =>
           octokit.search.users({
             q: query,
             sort: "followers",
             order,
             per_page: perPage,
             page,
-          }),
-        `search:users:${minFollowers}-${maxFollowers ?? "plus"}:${page}:${order}`
-      );
-
-      // Update rate limit info
-      rateLimiter.updateFromHeaders(
-        response.headers as Record<string, string>,
-        "search"
+          })
       );
 
       return response.data.items;
@@ -231,28 +398,22 @@ export async function searchRepos(
   page = 1,
   order: "asc" | "desc" = "desc"
 ) {
-  await rateLimiter.waitIfNeeded("search");
-
   const cacheKey = `search:repos:${language}:${minStars}:${perPage}:${page}:${order}`;
 
   return getCachedOrFetch(
     cacheKey,
     async () => {
-      const response = await withRetries(
-        () =>
+      const response = await restRequest(
+        "search",
+        `search:repos:${language}:${minStars}:${page}:${order}`,
+        (octokit) =>
           octokit.search.repos({
             q: `language:${language} stars:>=${minStars}`,
             sort: "stars",
             order,
             per_page: perPage,
             page,
-          }),
-        `search:repos:${language}:${minStars}:${page}:${order}`
-      );
-
-      rateLimiter.updateFromHeaders(
-        response.headers as Record<string, string>,
-        "search"
+          })
       );
 
       return response.data.items;
@@ -263,71 +424,43 @@ export async function searchRepos(
 
 // Get user profile
 export async function getUser(username: string) {
-  await rateLimiter.waitIfNeeded("rest");
-
   const cacheKey = `user:${username}`;
 
-  return getCachedOrFetch(
+  return getCachedOrRevalidate(
     cacheKey,
-    async () => {
-      const response = await withRetries(
-        () => octokit.users.getByUsername({ username }),
-        `rest:user:${username}`
-      );
-
-      rateLimiter.updateFromHeaders(
-        response.headers as Record<string, string>,
-        "rest"
-      );
-
-      return response.data;
-    },
+    "rest",
+    `rest:user:${username}`,
+    (octokit, headers) => octokit.users.getByUsername({ username, headers }),
+    (response) => response.data,
     CACHE_TTL.USER_PROFILE
   );
 }
 
 // Get repository info
 export async function getRepo(owner: string, repo: string) {
-  await rateLimiter.waitIfNeeded("rest");
-
   const cacheKey = `repo:${owner}/${repo}`;
 
-  return getCachedOrFetch(
+  return getCachedOrRevalidate(
     cacheKey,
-    async () => {
-      const response = await withRetries(
-        () => octokit.repos.get({ owner, repo }),
-        `rest:repo:${owner}/${repo}`
-      );
-
-      rateLimiter.updateFromHeaders(
-        response.headers as Record<string, string>,
-        "rest"
-      );
-
-      return response.data;
-    },
+    "rest",
+    `rest:repo:${owner}/${repo}`,
+    (octokit, headers) => octokit.repos.get({ owner, repo, headers }),
+    (response) => response.data,
     CACHE_TTL.REPO_STATS
   );
 }
 
 // Get repository contributor stats (includes weekly commit counts)
 export async function getContributorStats(owner: string, repo: string) {
-  await rateLimiter.waitIfNeeded("rest");
-
   const cacheKey = `stats:contributors:${owner}/${repo}`;
 
   return getCachedOrFetch(
     cacheKey,
     async () => {
-      const response = await withRetries(
-        () => octokit.repos.getContributorsStats({ owner, repo }),
-        `rest:contributors-stats:${owner}/${repo}`
-      );
-
-      rateLimiter.updateFromHeaders(
-        response.headers as Record<string, string>,
-        "rest"
+      const response = await restRequest(
+        "rest",
+        `rest:contributors-stats:${owner}/${repo}`,
+        (octokit) => octokit.repos.getContributorsStats({ owner, repo })
       );
 
       // GitHub may return 202 if stats are being computed
@@ -337,27 +470,23 @@ export async function getContributorStats(owner: string, repo: string) {
 
       return response.data;
     },
-    CACHE_TTL.REPO_STATS
+    CACHE_TTL.REPO_STATS,
+    // Don't pin a pending (202) result for the whole TTL
+    (data) => data !== null
   );
 }
 
 // Get code frequency stats (weekly additions/deletions)
 export async function getCodeFrequency(owner: string, repo: string) {
-  await rateLimiter.waitIfNeeded("rest");
-
   const cacheKey = `stats:code_frequency:${owner}/${repo}`;
 
   return getCachedOrFetch(
     cacheKey,
     async () => {
-      const response = await withRetries(
-        () => octokit.repos.getCodeFrequencyStats({ owner, repo }),
-        `rest:code-frequency:${owner}/${repo}`
-      );
-
-      rateLimiter.updateFromHeaders(
-        response.headers as Record<string, string>,
-        "rest"
+      const response = await restRequest(
+        "rest",
+        `rest:code-frequency:${owner}/${repo}`,
+        (octokit) => octokit.repos.getCodeFrequencyStats({ owner, repo })
       );
 
       if (response.status === 202) {
@@ -366,18 +495,73 @@ export async function getCodeFrequency(owner: string, repo: string) {
 
       return response.data;
     },
-    CACHE_TTL.REPO_STATS
+    CACHE_TTL.REPO_STATS,
+    (data) => data !== null
   );
 }
 
+const CONTRIBUTION_TOTALS_FIELDS = `
+  totalCommitContributions
+  totalPullRequestContributions
+  totalPullRequestReviewContributions
+  totalIssueContributions
+`;
+
+const CONTRIBUTIONS_COLLECTION_FIELDS = `
+  ${CONTRIBUTION_TOTALS_FIELDS}
+  contributionCalendar {
+    totalContributions
+    weeks {
+      contributionDays {
+        contributionCount
+        date
+      }
+    }
+  }
+`;
+
+// Requested alongside every GraphQL query so the limiter sees the real budget
+const RATE_LIMIT_FIELDS = `
+  rateLimit {
+    limit
+    cost
+    remaining
+    resetAt
+  }
+`;
+
+type GraphqlRateLimit = {
+  limit: number;
+  cost: number;
+  remaining: number;
+  resetAt: string;
+};
+
+export interface UserContributionTypeTotals {
+  totalCommitContributions: number;
+  totalPullRequestContributions: number;
+  totalPullRequestReviewContributions: number;
+  totalIssueContributions: number;
+}
+
+export interface UserContributionsCollection extends UserContributionTypeTotals {
+  contributionCalendar: {
+    totalContributions: number;
+    weeks: Array<{
+      contributionDays: Array<{
+        contributionCount: number;
+        date: string;
+      }>;
+    }>;
+  };
+}
+
 // Get user contribution data via GraphQL
 export async function getUserContributions(
   username: string,
   from: string,
   to: string
 ) {
-  await rateLimiter.waitIfNeeded("graphql");
-
   const cacheKey = `contributions:${username}:${from}:${to}`;
 
   return getCachedOrFetch(
@@ -388,51 +572,23 @@ export async function getUserContributions(
           query($username: String!, $from: DateTime!, $to: DateTime!) {
             user(login: $username) {
               contributionsCollection(from: $from, to: $to) {
-                totalCommitContributions
-                totalPullRequestContributions
-                totalPullRequestReviewContributions
-                totalIssueContributions
-                contributionCalendar {
-                  totalContributions
-                  weeks {
-                    contributionDays {
-                      contributionCount
-                      date
-                    }
-                  }
-                }
+                ${CONTRIBUTIONS_COLLECTION_FIELDS}
               }
             }
+            ${RATE_LIMIT_FIELDS}
           }
         `;
 
-        const response = await withRetries(
-          () =>
-            graphqlWithAuth<{
-              user: {
-                contributionsCollection: {
-                  totalCommitContributions: number;
-                  totalPullRequestContributions: number;
-                  totalPullRequestReviewContributions: number;
-                  totalIssueContributions: number;
-                  contributionCalendar: {
-                    totalContributions: number;
-                    weeks: Array<{
-                      contributionDays: Array<{
-                        contributionCount: number;
-                        date: string;
-                      }>;
-                    }>;
-                  };
-                };
-              };
-            }>(query, {
-              username,
-              from,
-              to,
-            }),
-          `graphql:contributions:${username}:${from}:${to}`
-        );
+        const response = await graphqlRequest<{
+          user: {
+            contributionsCollection: UserContributionsCollection;
+          };
+          rateLimit: GraphqlRateLimit | null;
+        }>(`graphql:contributions:${username}:${from}:${to}`, query, {
+          username,
+          from,
+          to,
+        });
 
         return response.user.contributionsCollection;
       } finally {
@@ -443,105 +599,659 @@ export async function getUserContributions(
   );
 }
 
-// Get PRs for a repository
-export async function getRepoPRs(
-  owner: string,
-  repo: string,
-  state: "open" | "closed" | "all" = "all",
-  perPage = 100,
-  page = 1
+// Get only the per-type contribution totals of a window, without the calendar
+export async function getUserContributionTotals(
+  username: string,
+  from: string,
+  to: string
 ) {
-  await rateLimiter.waitIfNeeded("rest");
-
-  const cacheKey = `prs:${owner}/${repo}:${state}:${perPage}:${page}`;
+  const cacheKey = `contribution-totals:${username}:${from}:${to}`;
 
   return getCachedOrFetch(
     cacheKey,
     async () => {
-      const response = await withRetries(
-        () =>
-          octokit.pulls.list({
-            owner,
-            repo,
-            state,
-            per_page: perPage,
-            page,
-            sort: "updated",
-            direction: "desc",
-          }),
-        `rest:prs:${owner}/${repo}:${state}:${page}`
-      );
+      try {
+        const query = `
+          query($username: String!, $from: DateTime!, $to: DateTime!) {
+            user(login: $username) {
+              contributionsCollection(from: $from, to: $to) {
+                ${CONTRIBUTION_TOTALS_FIELDS}
+              }
+            }
+            ${RATE_LIMIT_FIELDS}
+          }
+        `;
 
-      rateLimiter.updateFromHeaders(
-        response.headers as Record<string, string>,
-        "rest"
-      );
+        const response = await graphqlRequest<{
+          user: {
+            contributionsCollection: UserContributionTypeTotals;
+          };
+          rateLimit: GraphqlRateLimit | null;
+        }>(`graphql:contribution-totals:${username}:${from}:${to}`, query, {
+          username,
+          from,
+          to,
+        });
 
-      return response.data;
+        return response.user.contributionsCollection;
+      } finally {
+        await throttleGraphql();
+      }
     },
-    CACHE_TTL.REPO_STATS
+    CACHE_TTL.CONTRIBUTION_DATA
   );
 }
 
-// Get issues for a repository
+const graphqlBatchSizeRaw = Number(process.env.GRAPHQL_BATCH_SIZE ?? 12);
+const GRAPHQL_BATCH_SIZE = Number.isFinite(graphqlBatchSizeRaw)
+  ? Math.max(1, Math.trunc(graphqlBatchSizeRaw))
+  : 12;
+
+// Share of the remaining GraphQL budget a single batch may spend. Batches
+// shrink as the budget runs down so the last points go to small requests.
+const GRAPHQL_BATCH_BUDGET_SHARE = 0.01;
+
+// Windows per batched contributions query; tuned from the last response's cost.
+let contributionBatchSize = GRAPHQL_BATCH_SIZE;
+
+function nextContributionBatchSize(
+  windows: number,
+  rateLimit: { cost: number; remaining: number }
+) {
+  const costPerWindow = Math.max(rateLimit.cost, 1) / Math.max(windows, 1);
+  const affordable = Math.floor(
+    (rateLimit.remaining * GRAPHQL_BATCH_BUDGET_SHARE) / costPerWindow
+  );
+  return Math.min(GRAPHQL_BATCH_SIZE, Math.max(1, affordable));
+}
+
+// Fetch one aliased query covering several users and year windows.
+async function fetchContributionsBatch(
+  requests: Array<{ username: string; from: string; to: string }>
+): Promise<Array<UserContributionsCollection | null>> {
+  const usernames = Array.from(new Set(requests.map((r) => r.username)));
+  const variableDefs: string[] = [];
+  const variables: Record<string, string> = {};
+
+  const userBlocks = usernames.map((username, u) => {
+    variableDefs.push(`$login${u}: String!`);
+    variables[`login${u}`] = username;
+
+    const windowBlocks = requests
+      .map((r, w) => ({ r, w }))
+      .filter(({ r }) => r.username === username)
+      .map(({ r, w }) => {
+        variableDefs.push(`$from${w}: DateTime!`, `$to${w}: DateTime!`);
+        variables[`from${w}`] = r.from;
+        variables[`to${w}`] = r.to;
+        return `w${w}: contributionsCollection(from: $from${w}, to: $to${w}) {
+          ${CONTRIBUTIONS_COLLECTION_FIELDS}
+        }`;
+      });
+
+    return `u${u}: user(login: $login${u}) {
+      ${windowBlocks.join("\n")}
+    }`;
+  });
+
+  const query = `
+    query(${variableDefs.join(", ")}) {
+      ${userBlocks.join("\n")}
+      ${RATE_LIMIT_FIELDS}
+    }
+  `;
+
+  let data: Record<string, unknown>;
+  try {
+    data = await graphqlRequest<Record<string, unknown>>(
+      `graphql:contributions-batch:${usernames.length}u:${requests.length}w`,
+      query,
+      variables
+    );
+  } catch (error) {
+    // Unknown logins fail their own alias but still return data for the rest
+    const partial = getPartialGraphqlData(error);
+    if (!partial) throw error;
+    data = partial;
+  } finally {
+    await throttleGraphql();
+  }
+
+  const rateLimit = data.rateLimit as GraphqlRateLimit | null | undefined;
+  if (rateLimit) {
+    contributionBatchSize = nextContributionBatchSize(requests.length, rateLimit);
+  }
+
+  return requests.map((r, w) => {
+    const user = data[`u${usernames.indexOf(r.username)}`] as
+      | Record<string, UserContributionsCollection | null>
+      | null
+      | undefined;
+    return user?.[`w${w}`] ?? null;
+  });
+}
+
+// Get contribution data for many (user, window) pairs using aliased GraphQL
+// queries, several users and year windows per request. Results line up with
+// `requests`; an entry is null when that user or window could not be fetched.
+export async function getUserContributionsBatch(
+  requests: Array<{ username: string; from: string; to: string }>
+): Promise<Array<UserContributionsCollection | null>> {
+  const results: Array<UserContributionsCollection | null> = requests.map(() => null);
+  const cacheKeyFor = (r: { username: string; from: string; to: string }) =>
+    `contributions:${r.username}:${r.from}:${r.to}`;
+
+  const pending: number[] = [];
+  for (let i = 0; i < requests.length; i++) {
+    const cached = apiCacheDisabled
+      ? undefined
+      : await readCache<UserContributionsCollection>(cacheKeyFor(requests[i]));
+    if (cached !== undefined) {
+      results[i] = cached;
+    } else {
+      pending.push(i);
+    }
+  }
+
+  let offset = 0;
+  while (offset < pending.length) {
+    const indexes = pending.slice(offset, offset + contributionBatchSize);
+    let batch: Array<UserContributionsCollection | null>;
+    try {
+      batch = await fetchContributionsBatch(indexes.map((i) => requests[i]));
+    } catch (error) {
+      // Large contribution queries can time out server-side; retry smaller.
+      if (indexes.length > 1 && isRetryableError(error)) {
+        contributionBatchSize = Math.max(1, Math.floor(indexes.length / 2));
+        console.warn(
+          `[GitHub] contributions batch of ${indexes.length} failed; retrying with ${contributionBatchSize}`
+        );
+        continue;
+      }
+      throw error;
+    }
+
+    for (let j = 0; j < indexes.length; j++) {
+      const collection = batch[j];
+      results[indexes[j]] = collection;
+      if (collection && !apiCacheDisabled) {
+        await writeCache(
+          cacheKeyFor(requests[indexes[j]]),
+          collection,
+          CACHE_TTL.CONTRIBUTION_DATA
+        );
+      }
+    }
+    offset += indexes.length;
+  }
+
+  return results;
+}
+
+export interface PullRequestSummary {
+  id: string; // GraphQL node id
+  number: number;
+  title: string;
+  authorLogin: string | null;
+  authorType: string | null;
+  isDraft: boolean;
+  commentCount: number;
+  labels: string[];
+  createdAt: string;
+  mergedAt: string | null;
+  closedAt: string | null;
+  additions: number;
+  deletions: number;
+  reviewCount: number;
+  changesRequestedCount: number;
+}
+
+// Label names kept per PR/issue; items with more are truncated
+const LABELS_PER_ITEM = 20;
+
+type GraphqlAuthor = { __typename: string; login: string } | null;
+
+type GraphqlLabels = { nodes: Array<{ name: string } | null> | null } | null;
+
+function labelNames(labels: GraphqlLabels) {
+  return (labels?.nodes ?? []).flatMap((label) => (label ? [label.name] : []));
+}
+
+// Fields shared by user and repo pull request queries. Reviews are counted
+// twice: all of them, and just the rounds that requested changes.
+const PULL_REQUEST_FIELDS = `
+  id
+  number
+  title
+  author {
+    __typename
+    login
+  }
+  isDraft
+  comments {
+    totalCount
+  }
+  labels(first: ${LABELS_PER_ITEM}) {
+    nodes {
+      name
+    }
+  }
+  createdAt
+  mergedAt
+  closedAt
+  additions
+  deletions
+  reviews {
+    totalCount
+  }
+  changesRequested: reviews(states: CHANGES_REQUESTED) {
+    totalCount
+  }
+`;
+
+type GraphqlPullRequest = {
+  id: string;
+  number: number;
+  title: string;
+  author: GraphqlAuthor;
+  isDraft: boolean;
+  comments: { totalCount: number };
+  labels: GraphqlLabels;
+  createdAt: string;
+  mergedAt: string | null;
+  closedAt: string | null;
+  additions: number;
+  deletions: number;
+  reviews: { totalCount: number };
+  changesRequested: { totalCount: number };
+};
+
+function toPullRequestSummary(pr: GraphqlPullRequest): PullRequestSummary {
+  return {
+    id: pr.id,
+    number: pr.number,
+    title: pr.title,
+    authorLogin: pr.author?.login ?? null,
+    authorType: pr.author?.__typename ?? null,
+    isDraft: pr.isDraft,
+    commentCount: pr.comments.totalCount,
+    labels: labelNames(pr.labels),
+    createdAt: pr.createdAt,
+    mergedAt: pr.mergedAt,
+    closedAt: pr.closedAt,
+    additions: pr.additions,
+    deletions: pr.deletions,
+    reviewCount: pr.reviews.totalCount,
+    changesRequestedCount: pr.changesRequested.totalCount,
+  };
+}
+
+const USER_PULL_REQUESTS_QUERY = `
+  query($username: String!, $from: DateTime!, $to: DateTime!, $after: String) {
+    user(login: $username) {
+      contributionsCollection(from: $from, to: $to) {
+        pullRequestContributions(first: 100, after: $after) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            pullRequest {
+              ${PULL_REQUEST_FIELDS}
+            }
+          }
+        }
+      }
+    }
+    ${RATE_LIMIT_FIELDS}
+  }
+`;
+
+type PullRequestPage = {
+  pullRequests: PullRequestSummary[];
+  endCursor: string | null;
+};
+
+async function fetchPullRequestPage(
+  username: string,
+  from: string,
+  to: string,
+  after: string | null
+): Promise<PullRequestPage> {
+  try {
+    const response = await graphqlRequest<{
+      user: {
+        contributionsCollection: {
+          pullRequestContributions: {
+            pageInfo: { hasNextPage: boolean; endCursor: string | null };
+            nodes: Array<{ pullRequest: GraphqlPullRequest | null }>;
+          };
+        };
+      } | null;
+      rateLimit: GraphqlRateLimit | null;
+    }>(`graphql:user-prs:${username}:${from}:${to}`, USER_PULL_REQUESTS_QUERY, {
+      username,
+      from,
+      to,
+      after,
+    });
+
+    const contributions = response.user?.contributionsCollection.pullRequestContributions;
+    const pullRequests: PullRequestSummary[] = [];
+    for (const { pullRequest: pr } of contributions?.nodes ?? []) {
+      if (pr) pullRequests.push(toPullRequestSummary(pr));
+    }
+
+    return {
+      pullRequests,
+      endCursor: contributions?.pageInfo.hasNextPage
+        ? contributions.pageInfo.endCursor
+        : null,
+    };
+  } finally {
+    await throttleGraphql();
+  }
+}
+
+// Get pull requests a user opened in [from, to] (at most one year, a GraphQL
+// limit) via contributionsCollection.pullRequestContributions, all pages.
+export async function getUserPullRequests(
+  username: string,
+  from: string,
+  to: string
+): Promise<PullRequestSummary[]> {
+  const all: PullRequestSummary[] = [];
+  let after: string | null = null;
+
+  do {
+    const cursor = after;
+    const page: PullRequestPage = await getCachedOrFetch(
+      `user-prs:${username}:${from}:${to}:${cursor ?? "start"}`,
+      () => fetchPullRequestPage(username, from, to, cursor),
+      CACHE_TTL.CONTRIBUTION_DATA
+    );
+    all.push(...page.pullRequests);
+    after = page.endCursor;
+  } while (after);
+
+  return all;
+}
+
+const REPO_PULL_REQUESTS_QUERY = `
+  query($owner: String!, $name: String!, $first: Int!, $after: String) {
+    repository(owner: $owner, name: $name) {
+      pullRequests(first: $first, after: $after, orderBy: { field: CREATED_AT, direction: DESC }) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          ${PULL_REQUEST_FIELDS}
+        }
+      }
+    }
+    ${RATE_LIMIT_FIELDS}
+  }
+`;
+
+async function fetchRepoPullRequestPage(
+  owner: string,
+  repo: string,
+  perPage: number,
+  after: string | null
+): Promise<PullRequestPage> {
+  try {
+    const response = await graphqlRequest<{
+      repository: {
+        pullRequests: {
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+          nodes: Array<GraphqlPullRequest | null>;
+        };
+      } | null;
+      rateLimit: GraphqlRateLimit | null;
+    }>(`graphql:repo-prs:${owner}/${repo}`, REPO_PULL_REQUESTS_QUERY, {
+      owner,
+      name: repo,
+      first: perPage,
+      after,
+    });
+
+    const connection = response.repository?.pullRequests;
+    const pullRequests: PullRequestSummary[] = [];
+    for (const pr of connection?.nodes ?? []) {
+      if (pr) pullRequests.push(toPullRequestSummary(pr));
+    }
+
+    return {
+      pullRequests,
+      endCursor: connection?.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null,
+    };
+  } finally {
+    await throttleGraphql();
+  }
+}
+
+// Get every pull request of a repository created at or after `since`, newest
+// first, with size and review counts that the REST list endpoint doesn't return.
+// Pages are walked by creation date, so the history reaches back to `since`
+// however busy the repo is.
+export async function getRepoPullRequests(
+  owner: string,
+  repo: string,
+  since: string,
+  perPage = 100
+): Promise<PullRequestSummary[]> {
+  const sinceMs = new Date(since).getTime();
+  const all: PullRequestSummary[] = [];
+  let after: string | null = null;
+
+  do {
+    const cursor = after;
+    const page: PullRequestPage = await getCachedOrFetch(
+      `repo-prs:${owner}/${repo}:${perPage}:${cursor ?? "start"}`,
+      () => fetchRepoPullRequestPage(owner, repo, perPage, cursor),
+      CACHE_TTL.REPO_STATS
+    );
+
+    let reachedSince = false;
+    for (const pr of page.pullRequests) {
+      if (new Date(pr.createdAt).getTime() < sinceMs) {
+        reachedSince = true;
+        break;
+      }
+      all.push(pr);
+    }
+    after = reachedSince ? null : page.endCursor;
+  } while (after);
+
+  return all;
+}
+
+export interface IssueSummary {
+  id: string; // GraphQL node id
+  number: number;
+  title: string;
+  authorLogin: string | null;
+  authorType: string | null;
+  commentCount: number;
+  labels: string[];
+  createdAt: string;
+  closedAt: string | null;
+}
+
+type GraphqlIssue = {
+  id: string;
+  number: number;
+  title: string;
+  author: GraphqlAuthor;
+  comments: { totalCount: number };
+  labels: GraphqlLabels;
+  createdAt: string;
+  closedAt: string | null;
+};
+
+// Repository.issues excludes pull requests, unlike the REST issues endpoint
+const REPO_ISSUES_QUERY = `
+  query($owner: String!, $name: String!, $first: Int!, $after: String) {
+    repository(owner: $owner, name: $name) {
+      issues(first: $first, after: $after, orderBy: { field: CREATED_AT, direction: DESC }) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          id
+          number
+          title
+          author {
+            __typename
+            login
+          }
+          comments {
+            totalCount
+          }
+          labels(first: ${LABELS_PER_ITEM}) {
+            nodes {
+              name
+            }
+          }
+          createdAt
+          closedAt
+        }
+      }
+    }
+    ${RATE_LIMIT_FIELDS}
+  }
+`;
+
+type IssuePage = {
+  issues: IssueSummary[];
+  endCursor: string | null;
+};
+
+async function fetchRepoIssuePage(
+  owner: string,
+  repo: string,
+  perPage: number,
+  after: string | null
+): Promise<IssuePage> {
+  try {
+    const response = await graphqlRequest<{
+      repository: {
+        issues: {
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+          nodes: Array<GraphqlIssue | null>;
+        };
+      } | null;
+      rateLimit: GraphqlRateLimit | null;
+    }>(`graphql:repo-issues:${owner}/${repo}`, REPO_ISSUES_QUERY, {
+      owner,
+      name: repo,
+      first: perPage,
+      after,
+    });
+
+    const connection = response.repository?.issues;
+    const issues: IssueSummary[] = [];
+    for (const issue of connection?.nodes ?? []) {
+      if (!issue) continue;
+      issues.push({
+        id: issue.id,
+        number: issue.number,
+        title: issue.title,
+        authorLogin: issue.author?.login ?? null,
+        authorType: issue.author?.__typename ?? null,
+        commentCount: issue.comments.totalCount,
+        labels: labelNames(issue.labels),
+        createdAt: issue.createdAt,
+        closedAt: issue.closedAt,
+      });
+    }
+
+    return {
+      issues,
+      endCursor: connection?.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null,
+    };
+  } finally {
+    await throttleGraphql();
+  }
+}
+
+// Get every issue of a repository created at or after `since`, newest first.
 export async function getRepoIssues(
+  owner: string,
+  repo: string,
+  since: string,
+  perPage = 100
+): Promise<IssueSummary[]> {
+  const sinceMs = new Date(since).getTime();
+  const all: IssueSummary[] = [];
+  let after: string | null = null;
+
+  do {
+    const cursor = after;
+    const page: IssuePage = await getCachedOrFetch(
+      `repo-issues:${owner}/${repo}:${perPage}:${cursor ?? "start"}`,
+      () => fetchRepoIssuePage(owner, repo, perPage, cursor),
+      CACHE_TTL.REPO_STATS
+    );
+
+    let reachedSince = false;
+    for (const issue of page.issues) {
+      if (new Date(issue.createdAt).getTime() < sinceMs) {
+        reachedSince = true;
+        break;
+      }
+      all.push(issue);
+    }
+    after = reachedSince ? null : page.endCursor;
+  } while (after);
+
+  return all;
+}
+
+// Get PRs for a repository
+export async function getRepoPRs(
   owner: string,
   repo: string,
   state: "open" | "closed" | "all" = "all",
   perPage = 100,
   page = 1
 ) {
-  await rateLimiter.waitIfNeeded("rest");
-
-  const cacheKey = `issues:${owner}/${repo}:${state}:${perPage}:${page}`;
+  const cacheKey = `prs:${owner}/${repo}:${state}:${perPage}:${page}`;
 
-  return getCachedOrFetch(
+  return getCachedOrRevalidate(
     cacheKey,
-    async () => {
-      const response = await withRetries(
-        () =>
-          octokit.issues.listForRepo({
-            owner,
-            repo,
-            state,
-            per_page: perPage,
-            page,
-            sort: "updated",
-            direction: "desc",
-          }),
-        `rest:issues:${owner}/${repo}:${state}:${page}`
-      );
-
-      rateLimiter.updateFromHeaders(
-        response.headers as Record<string, string>,
-        "rest"
-      );
-
-      // Filter out PRs (GitHub includes PRs in issues endpoint)
-      return response.data.filter((issue) => !issue.pull_request);
-    },
+    "rest",
+    `rest:prs:${owner}/${repo}:${state}:${page}`,
+    (octokit, headers) =>
+      octokit.pulls.list({
+        owner,
+        repo,
+        state,
+        per_page: perPage,
+        page,
+        sort: "updated",
+        direction: "desc",
+        headers,
+      }),
+    (response) => response.data,
     CACHE_TTL.REPO_STATS
   );
 }
 
 // Get repository README text (decoded)
 export async function getRepoReadme(owner: string, repo: string) {
-  await rateLimiter.waitIfNeeded("rest");
-
   const cacheKey = `readme:${owner}/${repo}`;
 
   return getCachedOrFetch(
     cacheKey,
     async () => {
       try {
-        const response = await withRetries(
-          () => octokit.repos.getReadme({ owner, repo }),
-          `rest:readme:${owner}/${repo}`
-        );
-
-        rateLimiter.updateFromHeaders(
-          response.headers as Record<string, string>,
-          "rest"
+        const response = await restRequest(
+          "rest",
+          `rest:readme:${owner}/${repo}`,
+          (octokit) => octokit.repos.getReadme({ owner, repo })
         );
 
         const content = response.data.content
@@ -558,27 +1268,21 @@ export async function getRepoReadme(owner: string, repo: string) {
 
 // List files at the repository root (names only)
 export async function listRepoRootFiles(owner: string, repo: string) {
-  await rateLimiter.waitIfNeeded("rest");
-
   const cacheKey = `contents:root:${owner}/${repo}`;
 
   return getCachedOrFetch(
     cacheKey,
     async () => {
       try {
-        const response = await withRetries(
-          () =>
+        const response = await restRequest(
+          "rest",
+          `rest:contents:${owner}/${repo}:root`,
+          (octokit) =>
             octokit.repos.getContent({
               owner,
               repo,
               path: "",
-            }),
-          `rest:contents:${owner}/${repo}:root`
-        );
-
-        rateLimiter.updateFromHeaders(
-          response.headers as Record<string, string>,
-          "rest"
+            })
         );
 
         if (Array.isArray(response.data)) {
@@ -594,27 +1298,21 @@ export async function listRepoRootFiles(owner: string, repo: string) {
 }
 
 export async function listRepoDirFiles(owner: string, repo: string, path: string) {
-  await rateLimiter.waitIfNeeded("rest");
-
   const cacheKey = `contents:${path}:${owner}/${repo}`;
 
   return getCachedOrFetch(
     cacheKey,
     async () => {
       try {
-        const response = await withRetries(
-          () =>
+        const response = await restRequest(
+          "rest",
+          `rest:contents:${owner}/${repo}:${path}`,
+          (octokit) =>
             octokit.repos.getContent({
               owner,
               repo,
               path,
-            }),
-          `rest:contents:${owner}/${repo}:${path}`
-        );
-
-        rateLimiter.updateFromHeaders(
-          response.headers as Record<string, string>,
-          "rest"
+            })
         );
 
         if (Array.isArray(response.data)) {
@@ -629,7 +1327,7 @@ export async function listRepoDirFiles(owner: string, repo: string, path: string
   );
 }
 
-// Export rate limiter status for monitoring
+// Export rate limiter status for monitoring (summed over the token pool)
 export function getRateLimitStatus() {
-  return rateLimiter.getStatus();
+  return getTokenPoolStatus();
 }
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { BOOTSTRAP_RESAMPLES_ENV, BOOTSTRAP_SEED_ENV } from "@/lib/bootstrap";
+import {
+  GRANULARITIES,
+  TRACKED_LANGUAGES,
+  USER_TIERS,
+  type MetricsFilters,
+} from "@/types/metrics";
+
+// Query params accepted by GET /api/metrics.
+//   - language narrows the repo series (and sampled users' commits in sampled repos)
+//     to repos of that primary language
+//   - userTier narrows the user series to one follower tier
+//   - startDate/endDate take anything Date can parse; YYYY-MM-DD is expected
+//   - granularity sets the bucket size of the trend series (default month); daily
+//     buckets are limited to MAX_DAILY_RANGE_DAYS since they scan every user-day
+//   - rollingWindow is the number of buckets in the trailing mean of the rolling variant
+//   - bootstrapSamples/bootstrapSeed control the confidence intervals of the mean
+//     contribution series (0 samples turns them off)
+
+const MAX_DAILY_RANGE_DAYS = 366;
+
+const dateParam = z
+  .string()
+  .refine((value) => Number.isFinite(Date.parse(value)), {
+    message: "Expected a date such as 2024-01-31",
+  });
+
+const booleanParam = z
+  .string()
+  .transform((value) => ["1", "true", "yes"].includes(value.toLowerCase()));
+
+// Without a startDate the range starts at 2020-01-01, which is too long anyway
+function dailyRangeDays(query: { startDate?: string; endDate?: string }) {
+  if (!query.startDate) return Infinity;
+  const endMs = query.endDate ? Date.parse(query.endDate) : Date.now();
+  return (endMs - Date.parse(query.startDate)) / (24 * 60 * 60 * 1000);
+}
+
+const metricsQuerySchema = z
+  .object({
+    startDate: dateParam.optional(),
+    endDate: dateParam.optional(),
+    language: z.enum([...TRACKED_LANGUAGES, "all"]).default("all"),
+    userTier: z.enum([...USER_TIERS, "all"]).default("all"),
+    granularity: z.enum(GRANULARITIES).default("month"),
+    rollingWindow: z.coerce.number().int().min(2).max(52).default(3),
+    bootstrapSamples: z.coerce.number().int().min(0).max(2000).default(BOOTSTRAP_RESAMPLES_ENV),
+    bootstrapSeed: z.coerce.number().int().default(BOOTSTRAP_SEED_ENV),
+    includeBots: booleanParam.default(false),
+    source: z.enum(["raw", "rollup"]).optional(),
+  })
+  .refine(
+    (query) =>
+      !query.startDate ||
+      !query.endDate ||
+      Date.parse(query.startDate) <= Date.parse(query.endDate),
+    { message: "startDate must not be after endDate", path: ["startDate"] }
+  )
+  .refine(
+    (query) => query.granularity !== "day" || dailyRangeDays(query) <= MAX_DAILY_RANGE_DAYS,
+    {
+      message: `granularity=day needs a startDate at most ${MAX_DAILY_RANGE_DAYS} days before endDate`,
+      path: ["granularity"],
+    }
+  );
+
+export type MetricsQuery = z.infer<typeof metricsQuerySchema> & MetricsFilters;
+
+export type MetricsQueryResult =
+  | { success: true; query: MetricsQuery }
+  | { success: false; errors: Record<string, string[]> };
+
+export function parseMetricsQuery(searchParams: URLSearchParams): MetricsQueryResult {
+  const result = metricsQuerySchema.safeParse(Object.fromEntries(searchParams));
+  if (result.success) {
+    return { success: true, query: result.data };
+  }
+
+  const errors: Record<string, string[]> = {};
+  for (const issue of result.error.issues) {
+    const key = issue.path.join(".") || "query";
+    (errors[key] ||= []).push(issue.message);
+  }
+  return { success: false, errors };
+}
@@ -0,0 +1,81 @@
+import { prisma } from "./prisma";
+import type { GitHubRateLimiter, RateLimitType } from "./rate-limiter";
+
+const RESOURCES: RateLimitType[] = ["rest", "search", "graphql"];
+
+// A secondary limit pause is stored as one more resource row per token.
+const PAUSE_RESOURCE = "pause";
+
+const syncIntervalRaw = Number(process.env.RATE_LIMIT_SYNC_INTERVAL_MS ?? 5000);
+const RATE_LIMIT_SYNC_INTERVAL_MS = Number.isFinite(syncIntervalRaw)
+  ? Math.max(0, syncIntervalRaw)
+  : 5000;
+
+let lastSyncAt = 0;
+let inFlight: Promise<void> | null = null;
+
+async function syncOnce(limiters: Map<string, GitHubRateLimiter>) {
+  const rows = await prisma.rateLimitState.findMany();
+
+  // Restore first so a fresh process starts from what others already spent
+  for (const row of rows) {
+    const limiter = limiters.get(row.tokenKey);
+    if (!limiter) continue;
+    if (row.resource === PAUSE_RESOURCE) {
+      limiter.pause(row.resetAt);
+      continue;
+    }
+    if (!RESOURCES.includes(row.resource as RateLimitType)) continue;
+    limiter.merge(row.resource as RateLimitType, {
+      remaining: row.remaining,
+      limit: row.limit,
+      resetAt: row.resetAt,
+    });
+  }
+
+  const writes = Array.from(limiters.entries()).flatMap(([tokenKey, limiter]) => {
+    const status = limiter.getStatus();
+    const upserts = RESOURCES.map((resource) => {
+      const state = status[resource];
+      return prisma.rateLimitState.upsert({
+        where: { tokenKey_resource: { tokenKey, resource } },
+        create: { tokenKey, resource, ...state },
+        update: state,
+      });
+    });
+
+    const pausedUntil = limiter.pausedUntil();
+    if (pausedUntil) {
+      const pause = { remaining: 0, limit: 0, resetAt: pausedUntil };
+      upserts.push(
+        prisma.rateLimitState.upsert({
+          where: { tokenKey_resource: { tokenKey, resource: PAUSE_RESOURCE } },
+          create: { tokenKey, resource: PAUSE_RESOURCE, ...pause },
+          update: pause,
+        })
+      );
+    }
+    return upserts;
+  });
+
+  await prisma.$transaction(writes);
+}
+
+// Exchange limiter state with the database: restore what other processes (the
+// dev server, scripts/, a restarted server) have recorded, then save ours.
+// Runs at most once per RATE_LIMIT_SYNC_INTERVAL_MS; failures only log, since
+// the in-memory limiter keeps working without the table.
+export async function syncRateLimitState(limiters: Map<string, GitHubRateLimiter>) {
+  if (inFlight) return inFlight;
+  if (Date.now() - lastSyncAt < RATE_LIMIT_SYNC_INTERVAL_MS) return;
+
+  lastSyncAt = Date.now();
+  inFlight = syncOnce(limiters)
+    .catch((error) => {
+      console.warn("[RateLimiter] failed to sync persisted state:", error);
+    })
+    .finally(() => {
+      inFlight = null;
+    });
+  return inFlight;
+}
@@ -3,13 +3,20 @@
 // Search: 30 requests/minute
 // GraphQL: 5000 points/hour
 
-interface RateLimitState {
+export type RateLimitType = "rest" | "search" | "graphql";
+
+export interface RateLimitState {
   remaining: number;
   limit: number;
   resetAt: Date;
 }
 
-class GitHubRateLimiter {
+// Keep a buffer to avoid hitting hard limits
+function bufferFor(type: RateLimitType) {
+  return type === "search" ? 5 : 100;
+}
+
+export class GitHubRateLimiter {
   private restLimit: RateLimitState = {
     remaining: 5000,
     limit: 5000,
@@ -28,43 +35,101 @@ class GitHubRateLimiter {
     resetAt: new Date(),
   };
 
+  // Secondary (abuse) limits hold every request on this token, whatever its
+  // budgets say, until this time.
+  private pausedUntilMs = 0;
+
   updateFromHeaders(
     headers: Record<string, string | undefined>,
-    type: "rest" | "search" | "graphql"
+    type: RateLimitType
   ) {
     const remaining = parseInt(headers["x-ratelimit-remaining"] || "5000", 10);
     const reset = parseInt(headers["x-ratelimit-reset"] || "0", 10);
     const limit = parseInt(headers["x-ratelimit-limit"] || "5000", 10);
 
-    const state: RateLimitState = {
+    this.setState(type, {
       remaining,
       limit,
       resetAt: new Date(reset * 1000),
+    });
+  }
+
+  // GraphQL responses carry their budget in the `rateLimit` object rather than
+  // in headers we can see, so it is fed in separately.
+  updateFromGraphql(rateLimit: {
+    limit: number;
+    remaining: number;
+    resetAt: string;
+  }) {
+    const resetAt = new Date(rateLimit.resetAt);
+    this.graphqlLimit = {
+      remaining: rateLimit.remaining,
+      limit: rateLimit.limit,
+      resetAt: Number.isNaN(resetAt.getTime()) ? new Date() : resetAt,
     };
+  }
 
-    switch (type) {
-      case "rest":
-        this.restLimit = state;
-        break;
-      case "search":
-        this.searchLimit = state;
-        break;
-      case "graphql":
-        this.graphqlLimit = state;
-        break;
+  // Fold in state another process saw for the same token. A later reset means
+  // a newer window; within the same window the lower remaining count wins.
+  merge(type: RateLimitType, other: RateLimitState) {
+    const current = this.stateFor(type);
+    const diff = other.resetAt.getTime() - current.resetAt.getTime();
+    if (diff > 1000) {
+      this.setState(type, { ...other });
+    } else if (Math.abs(diff) <= 1000 && other.remaining < current.remaining) {
+      this.setState(type, { ...current, remaining: other.remaining });
+    }
+  }
+
+  // A 403 rate-limit response means the budget is gone regardless of what the
+  // last headers said; hold this type until the given reset time.
+  markExhausted(type: RateLimitType, resetAt: Date) {
+    const state = this.stateFor(type);
+    this.setState(type, { ...state, remaining: 0, resetAt });
+  }
+
+  pause(until: Date) {
+    if (until.getTime() > this.pausedUntilMs) {
+      this.pausedUntilMs = until.getTime();
     }
   }
 
-  async waitIfNeeded(type: "rest" | "search" | "graphql"): Promise<void> {
-    const state =
-      type === "rest"
-        ? this.restLimit
-        : type === "search"
-          ? this.searchLimit
-          : this.graphqlLimit;
+  pausedUntil(): Date | null {
+    return this.pausedUntilMs > Date.now() ? new Date(this.pausedUntilMs) : null;
+  }
 
-    // Keep a buffer to avoid hitting hard limits
-    const buffer = type === "search" ? 5 : 100;
+  // Requests left before the buffer, counting a passed reset as a full budget.
+  // A paused token has none.
+  available(type: RateLimitType): number {
+    if (this.pausedUntil()) return 0;
+    const state = this.stateFor(type);
+    const remaining = state.resetAt.getTime() <= Date.now() ? state.limit : state.remaining;
+    return Math.max(0, remaining - bufferFor(type));
+  }
+
+  resetAt(type: RateLimitType): Date {
+    return this.stateFor(type).resetAt;
+  }
+
+  // When this token can next serve a request of this type.
+  usableAt(type: RateLimitType): Date {
+    const state = this.stateFor(type);
+    const budgetAt = state.remaining <= bufferFor(type) ? state.resetAt.getTime() : 0;
+    return new Date(Math.max(budgetAt, this.pausedUntilMs, Date.now()));
+  }
+
+  async waitIfNeeded(type: RateLimitType): Promise<void> {
+    const pausedUntil = this.pausedUntil();
+    if (pausedUntil) {
+      const waitMs = pausedUntil.getTime() - Date.now();
+      console.log(
+        `[RateLimiter] paused by a secondary rate limit. Waiting ${Math.round(waitMs / 1000)}s.`
+      );
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+
+    const state = this.stateFor(type);
+    const buffer = bufferFor(type);
 
     if (state.remaining <= buffer) {
       const waitMs = Math.max(0, state.resetAt.getTime() - Date.now() + 1000);
@@ -85,17 +150,30 @@ class GitHubRateLimiter {
     };
   }
 
-  canMakeRequest(type: "rest" | "search" | "graphql"): boolean {
-    const state =
-      type === "rest"
-        ? this.restLimit
-        : type === "search"
-          ? this.searchLimit
-          : this.graphqlLimit;
-    const buffer = type === "search" ? 5 : 100;
-    return state.remaining > buffer || state.resetAt < new Date();
+  canMakeRequest(type: RateLimitType): boolean {
+    const state = this.stateFor(type);
+    return state.remaining > bufferFor(type) || state.resetAt < new Date();
+  }
+
+  private stateFor(type: RateLimitType): RateLimitState {
+    return type === "rest"
+      ? this.restLimit
+      : type === "search"
+        ? this.searchLimit
+        : this.graphqlLimit;
   }
-}
 
-// Singleton instance
-export const rateLimiter = new GitHubRateLimiter();
+  private setState(type: RateLimitType, state: RateLimitState) {
+    switch (type) {
+      case "rest":
+        this.restLimit = state;
+        break;
+      case "search":
+        this.searchLimit = state;
+        break;
+      case "graphql":
+        this.graphqlLimit = state;
+        break;
+    }
+  }
+}
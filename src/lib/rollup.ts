@@ -0,0 +1,276 @@
+import { prisma } from "./prisma";
+
+// GlobalDailyMetrics is a per-day rollup of the user and repo metric tables so
+// /api/metrics?source=rollup can read one row per day instead of scanning every
+// user-day. Sync code marks the days it wrote in RollupDirtyRange; the job
+// runner rebuilds them, picking up ranges left behind by a crashed process.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Widen the stored dirty range to cover `dates`
+export async function markRollupDirty(dates: Date[]) {
+  let fromMs = Infinity;
+  let toMs = -Infinity;
+  for (const date of dates) {
+    const ms = date.getTime();
+    if (!Number.isFinite(ms)) continue;
+    fromMs = Math.min(fromMs, ms);
+    toMs = Math.max(toMs, ms);
+  }
+  if (!Number.isFinite(fromMs)) return;
+  const from = new Date(fromMs);
+  const to = new Date(toMs);
+
+  await prisma.$executeRaw`
+    INSERT INTO RollupDirtyRange (id, fromDate, toDate, updatedAt)
+    VALUES (1, ${from}, ${to}, ${new Date()})
+    ON CONFLICT(id) DO UPDATE SET
+      fromDate = MIN(fromDate, excluded.fromDate),
+      toDate = MAX(toDate, excluded.toDate),
+      updatedAt = excluded.updatedAt
+  `;
+}
+
+// Rebuild the days marked dirty since the last rebuild. Returns the rows written.
+// On failure the range stays stored so the next rebuild retries it.
+export async function rebuildDirtyRollup() {
+  const range = await prisma.rollupDirtyRange.findUnique({ where: { id: 1 } });
+  if (!range) return 0;
+
+  const written = await rebuildGlobalDailyMetrics(range.fromDate, range.toDate);
+
+  // Days marked while rebuilding bumped updatedAt; keep those for the next rebuild
+  await prisma.rollupDirtyRange.deleteMany({
+    where: { id: 1, updatedAt: range.updatedAt },
+  });
+  return written;
+}
+
+type DayTotals = {
+  totalContributions: number;
+  contributionsByTier: Record<string, { total: number; activeUsers: number }>;
+  activeUsers: number;
+  commits: number;
+  linesAdded: number;
+  linesRemoved: number;
+  userCommits: number;
+  userLinesAdded: number;
+  userLinesRemoved: number;
+  prsOpened: number;
+  prsMerged: number;
+  mergeHours: number;
+  prsSized: number;
+  reviewCycles: number;
+  prLines: number;
+  issuesOpened: number;
+  issuesClosed: number;
+  resolutionHours: number;
+  activeRepos: number;
+};
+
+function emptyDay(): DayTotals {
+  return {
+    totalContributions: 0,
+    contributionsByTier: {},
+    activeUsers: 0,
+    commits: 0,
+    linesAdded: 0,
+    linesRemoved: 0,
+    userCommits: 0,
+    userLinesAdded: 0,
+    userLinesRemoved: 0,
+    prsOpened: 0,
+    prsMerged: 0,
+    mergeHours: 0,
+    prsSized: 0,
+    reviewCycles: 0,
+    prLines: 0,
+    issuesOpened: 0,
+    issuesClosed: 0,
+    resolutionHours: 0,
+    activeRepos: 0,
+  };
+}
+
+// Rebuild GlobalDailyMetrics for every UTC day in [from, to]. Days without any
+// source rows end up without a rollup row. Returns the rows written.
+export async function rebuildGlobalDailyMetrics(from: Date, to: Date) {
+  const fromMs = Math.floor(from.getTime() / DAY_MS) * DAY_MS;
+  const toMs = Math.floor(to.getTime() / DAY_MS) * DAY_MS + DAY_MS - 1;
+
+  const [contributionRows, commitRows, prRows, issueRows, activeRepoRows] =
+    await Promise.all([
+      prisma.$queryRaw<
+        { day: number; tier: string; total: number | null; activeUsers: number }[]
+      >`
+        SELECT
+          m.date as day,
+          u.tier as tier,
+          SUM(m.contributionCount) as total,
+          COUNT(*) as activeUsers
+        FROM UserContributionMetrics m
+        JOIN SampledUser u ON u.id = m.userId
+        WHERE m.date >= ${fromMs} AND m.date <= ${toMs}
+        GROUP BY day, tier
+      `,
+      prisma.$queryRaw<
+        {
+          day: number;
+          isUser: number;
+          commits: number | null;
+          linesAdded: number | null;
+          linesRemoved: number | null;
+        }[]
+      >`
+        SELECT
+          date as day,
+          CASE WHEN userId IS NULL THEN 0 ELSE 1 END as isUser,
+          SUM(commitCount) as commits,
+          SUM(linesAdded) as linesAdded,
+          SUM(linesRemoved) as linesRemoved
+        FROM CommitMetrics
+        WHERE date >= ${fromMs} AND date <= ${toMs} AND isBot = 0
+        GROUP BY day, isUser
+      `,
+      prisma.$queryRaw<
+        {
+          day: number;
+          opened: number | null;
+          merged: number | null;
+          mergeHours: number | null;
+          sized: number | null;
+          reviewCycles: number | null;
+          lines: number | null;
+        }[]
+      >`
+        SELECT
+          date as day,
+          SUM(prsOpened) as opened,
+          SUM(prsMerged) as merged,
+          SUM(COALESCE(avgTimeToMergeHrs, 0) * prsMerged) as mergeHours,
+          SUM(CASE WHEN avgReviewCycles IS NOT NULL THEN prsOpened ELSE 0 END) as sized,
+          SUM(COALESCE(avgReviewCycles, 0) * prsOpened) as reviewCycles,
+          SUM(COALESCE(avgLinesPerPR, 0) * prsOpened) as lines
+        FROM PRMetrics
+        WHERE date >= ${fromMs} AND date <= ${toMs} AND userId IS NULL AND isBot = 0
+        GROUP BY day
+      `,
+      prisma.$queryRaw<
+        {
+          day: number;
+          opened: number | null;
+          closed: number | null;
+          resolutionHours: number | null;
+        }[]
+      >`
+        SELECT
+          date as day,
+          SUM(issuesOpened) as opened,
+          SUM(issuesClosed) as closed,
+          SUM(COALESCE(avgResolutionHrs, 0) * issuesClosed) as resolutionHours
+        FROM IssueMetrics
+        WHERE date >= ${fromMs} AND date <= ${toMs} AND isBot = 0
+        GROUP BY day
+      `,
+      prisma.$queryRaw<{ day: number; repos: number }[]>`
+        SELECT day, COUNT(DISTINCT repoId) as repos
+        FROM (
+          SELECT date as day, repoId FROM CommitMetrics
+          WHERE date >= ${fromMs} AND date <= ${toMs} AND userId IS NULL AND isBot = 0
+          UNION
+          SELECT date as day, repoId FROM PRMetrics
+          WHERE date >= ${fromMs} AND date <= ${toMs} AND userId IS NULL AND isBot = 0
+          UNION
+          SELECT date as day, repoId FROM IssueMetrics
+          WHERE date >= ${fromMs} AND date <= ${toMs} AND isBot = 0
+        )
+        GROUP BY day
+      `,
+    ]);
+
+  const days = new Map<number, DayTotals>();
+  const dayFor = (day: number | bigint) => {
+    const key = Number(day);
+    const existing = days.get(key);
+    if (existing) return existing;
+    const created = emptyDay();
+    days.set(key, created);
+    return created;
+  };
+
+  for (const row of contributionRows) {
+    const d = dayFor(row.day);
+    const total = Number(row.total || 0);
+    const activeUsers = Number(row.activeUsers || 0);
+    d.totalContributions += total;
+    d.activeUsers += activeUsers;
+    d.contributionsByTier[row.tier] = { total, activeUsers };
+  }
+
+  for (const row of commitRows) {
+    const d = dayFor(row.day);
+    if (Number(row.isUser)) {
+      d.userCommits += Number(row.commits || 0);
+      d.userLinesAdded += Number(row.linesAdded || 0);
+      d.userLinesRemoved += Number(row.linesRemoved || 0);
+    } else {
+      d.commits += Number(row.commits || 0);
+      d.linesAdded += Number(row.linesAdded || 0);
+      d.linesRemoved += Number(row.linesRemoved || 0);
+    }
+  }
+
+  for (const row of prRows) {
+    const d = dayFor(row.day);
+    d.prsOpened = Number(row.opened || 0);
+    d.prsMerged = Number(row.merged || 0);
+    d.mergeHours = Number(row.mergeHours || 0);
+    d.prsSized = Number(row.sized || 0);
+    d.reviewCycles = Number(row.reviewCycles || 0);
+    d.prLines = Number(row.lines || 0);
+  }
+
+  for (const row of issueRows) {
+    const d = dayFor(row.day);
+    d.issuesOpened = Number(row.opened || 0);
+    d.issuesClosed = Number(row.closed || 0);
+    d.resolutionHours = Number(row.resolutionHours || 0);
+  }
+
+  for (const row of activeRepoRows) {
+    dayFor(row.day).activeRepos = Number(row.repos || 0);
+  }
+
+  const rows = Array.from(days.entries()).map(([dayMs, d]) => ({
+    date: new Date(dayMs),
+    totalContributions: d.totalContributions,
+    contributionsByTier: JSON.stringify(d.contributionsByTier),
+    totalCommits: d.commits,
+    avgCommitsPerUser: d.activeUsers > 0 ? d.totalContributions / d.activeUsers : 0,
+    totalLinesAdded: d.linesAdded,
+    totalLinesRemoved: d.linesRemoved,
+    avgLinesPerCommit: d.commits > 0 ? (d.linesAdded + d.linesRemoved) / d.commits : 0,
+    userCommits: d.userCommits,
+    userLinesAdded: d.userLinesAdded,
+    userLinesRemoved: d.userLinesRemoved,
+    totalPRsOpened: d.prsOpened,
+    totalPRsMerged: d.prsMerged,
+    avgTimeToMergeHrs: d.prsMerged > 0 ? d.mergeHours / d.prsMerged : null,
+    avgReviewCycles: d.prsSized > 0 ? d.reviewCycles / d.prsSized : null,
+    avgLinesPerPR: d.prsSized > 0 ? d.prLines / d.prsSized : null,
+    totalIssuesOpened: d.issuesOpened,
+    totalIssuesClosed: d.issuesClosed,
+    avgResolutionHrs: d.issuesClosed > 0 ? d.resolutionHours / d.issuesClosed : null,
+    activeUsers: d.activeUsers,
+    activeRepos: d.activeRepos,
+  }));
+
+  await prisma.$transaction([
+    prisma.globalDailyMetrics.deleteMany({
+      where: { date: { gte: new Date(fromMs), lte: new Date(toMs) } },
+    }),
+    prisma.globalDailyMetrics.createMany({ data: rows }),
+  ]);
+
+  return rows.length;
+}
@@ -0,0 +1,503 @@
+import { randomUUID } from "node:crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { evictExpiredCache } from "@/lib/api-cache";
+import { rebuildDirtyRollup } from "@/lib/rollup";
+import { getRateLimitStatus } from "@/lib/github";
+import type { SyncJobProgress } from "@/types/metrics";
+import {
+  DEFAULT_SAMPLING_SEED,
+  refreshStaleUsers,
+  retryPendingRepoStats,
+  syncRepos,
+  syncUserPullRequests,
+  syncUsers,
+  type RepoSyncCursor,
+  type UserBand,
+  type UserSyncCursor,
+} from "@/lib/sync";
+
+// Shape of SyncJob.samplingParams for user/repo sync jobs. Everything needed
+// to (re)run a job is stored here so a resumed job behaves like the original.
+export interface SyncSamplingParams {
+  users: {
+    baselineYears: readonly number[];
+    baselineMinContributions: number;
+    bands: UserBand[];
+    usersPerBand: number | null;
+    perPage: number;
+    pagesPerOrder: number;
+    orders: Array<"asc" | "desc">;
+    incremental?: boolean;
+  } | null;
+  repos: {
+    languages: string[];
+    reposPerLanguage: number;
+    minStars: number;
+    // PR/issue history starts Jan 1 of this year (absent on jobs created before it existed)
+    historyFromYear?: number;
+  } | null;
+  refresh?: {
+    staleDays: number;
+    incremental: boolean;
+  } | null;
+  prs?: {
+    fromYear: number;
+  } | null;
+}
+
+// Shape of SyncJob.checkpoint: the next unit of work to run.
+export interface SyncCheckpoint extends UserSyncCursor, RepoSyncCursor {
+  phase: "refresh" | "prs" | "users" | "repos" | "stats" | "done";
+  // Last user finished by a stale-user refresh or user PR pass (both run in id order)
+  lastUserId?: string | null;
+}
+
+type SyncJobRow = NonNullable<Awaited<ReturnType<typeof prisma.syncJob.findUnique>>>;
+
+const heartbeatTimeoutRaw = Number(process.env.SYNC_JOB_HEARTBEAT_TIMEOUT_MS ?? 5 * 60_000);
+const SYNC_JOB_HEARTBEAT_TIMEOUT_MS = Number.isFinite(heartbeatTimeoutRaw)
+  ? Math.max(60_000, heartbeatTimeoutRaw)
+  : 5 * 60_000;
+const SYNC_JOB_HEARTBEAT_INTERVAL_MS = Math.floor(SYNC_JOB_HEARTBEAT_TIMEOUT_MS / 4);
+
+const ACTIVE_STATUSES = ["pending", "running"];
+
+// Data each job type writes. Jobs sharing a resource must not run side by side;
+// an active job holds one SyncJobLock row per resource, keyed by the resource.
+const JOB_LOCKS: Record<string, string[]> = {
+  all: ["users", "repos"],
+  users: ["users"],
+  refresh: ["users"],
+  repos: ["repos"],
+  prs: ["prs"],
+};
+
+// Job types run by runSyncJob from a checkpoint. Other SyncJob rows (e.g. adoption)
+// are bookkeeping for one-shot runs and cannot be resumed.
+const RESUMABLE_JOB_TYPES = ["users", "repos", "all", "refresh", "prs"];
+
+export function isResumableJobType(jobType: string) {
+  return RESUMABLE_JOB_TYPES.includes(jobType);
+}
+
+function jobLocks(jobType: string) {
+  return JOB_LOCKS[jobType] ?? [jobType];
+}
+
+// Thrown from inside a job loop once a cancel has been requested for the job.
+export class SyncJobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Sync job ${jobId} was cancelled`);
+    this.name = "SyncJobCancelledError";
+  }
+}
+
+// Jobs being executed by this process.
+const activeJobs = new Set<string>();
+
+// Mark "running"/"pending" rows whose heartbeat has gone quiet as failed, so a
+// crashed process doesn't hold the lock forever. Failed jobs can be resumed.
+export async function failStaleJobs() {
+  const cutoff = new Date(Date.now() - SYNC_JOB_HEARTBEAT_TIMEOUT_MS);
+  const result = await prisma.syncJob.updateMany({
+    where: {
+      status: { in: ACTIVE_STATUSES },
+      id: { notIn: Array.from(activeJobs) },
+      OR: [
+        { heartbeatAt: { lt: cutoff } },
+        { heartbeatAt: null, createdAt: { lt: cutoff } },
+      ],
+    },
+    data: {
+      status: "failed",
+      completedAt: new Date(),
+      errorMessage: "Heartbeat timed out; the process running this job stopped",
+    },
+  });
+
+  if (result.count > 0) {
+    console.warn(`[SyncJob] marked ${result.count} stale job(s) as failed`);
+  }
+}
+
+type JobLockResult =
+  | { job: SyncJobRow; conflict: null }
+  | { job: null; conflict: SyncJobRow };
+
+// Activate a job and take its locks in one write transaction: locks still held
+// by jobs that are no longer active are dropped first, so a duplicate resource
+// can only mean an active job holds it. That unique violation rolls back the
+// activation and returns the holder as the conflict.
+async function activateWithLocks(
+  jobId: string,
+  jobType: string,
+  activate: () => Prisma.PrismaPromise<SyncJobRow>
+): Promise<JobLockResult> {
+  const resources = jobLocks(jobType);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const [, job] = await prisma.$transaction([
+        prisma.syncJobLock.deleteMany({
+          where: {
+            resource: { in: resources },
+            job: { status: { notIn: ACTIVE_STATUSES } },
+          },
+        }),
+        activate(),
+        prisma.syncJobLock.createMany({
+          data: resources.map((resource) => ({ resource, jobId })),
+        }),
+      ]);
+      return { job, conflict: null };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== "P2002") {
+        throw error;
+      }
+
+      const held = await prisma.syncJobLock.findFirst({
+        where: { resource: { in: resources }, job: { status: { in: ACTIVE_STATUSES } } },
+        include: { job: true },
+      });
+      if (held) return { job: null, conflict: held.job };
+      // The holder finished in between; its lock is stale now, so try once more
+      if (attempt >= 2) throw error;
+    }
+  }
+}
+
+// Create a job row unless another job writing the same data is still active.
+// Returns the active job instead when the lock is held.
+export async function createJobWithLock(data: {
+  jobType: string;
+  samplingSeed?: number | null;
+  samplingParams?: string | null;
+}) {
+  await failStaleJobs();
+
+  const id = randomUUID();
+  return activateWithLocks(id, data.jobType, () =>
+    prisma.syncJob.create({
+      data: {
+        ...data,
+        id,
+        status: "pending",
+        heartbeatAt: new Date(),
+      },
+    })
+  );
+}
+
+// Move a failed or cancelled job back to "pending" so it can be resumed, unless
+// another job writing the same data is active. Returns that job when it is.
+export async function reopenJobWithLock(job: { id: string; jobType: string }) {
+  await failStaleJobs();
+
+  return activateWithLocks(job.id, job.jobType, () =>
+    prisma.syncJob.update({
+      where: { id: job.id },
+      data: {
+        status: "pending",
+        heartbeatAt: new Date(),
+        cancelRequestedAt: null,
+      },
+    })
+  );
+}
+
+// Ask an active job to stop. Job loops check for this between users/repos.
+export async function requestJobCancel(jobId: string) {
+  await failStaleJobs();
+
+  const result = await prisma.syncJob.updateMany({
+    where: { id: jobId, status: { in: ACTIVE_STATUSES } },
+    data: { cancelRequestedAt: new Date() },
+  });
+  return result.count > 0;
+}
+
+// Refresh the job heartbeat and stop the job if a cancel has been requested.
+export async function touchJob(jobId: string, data: Prisma.SyncJobUpdateInput = {}) {
+  const job = await prisma.syncJob.update({
+    where: { id: jobId },
+    data: { ...data, heartbeatAt: new Date() },
+  });
+  if (job.cancelRequestedAt) {
+    throw new SyncJobCancelledError(jobId);
+  }
+  return job;
+}
+
+// Keep a job's heartbeat fresh while it waits on slow work (e.g. rate limit resets).
+export function keepJobAlive(jobId: string) {
+  const timer = setInterval(() => {
+    prisma.syncJob
+      .update({ where: { id: jobId }, data: { heartbeatAt: new Date() } })
+      .catch((error) => console.error(`Failed to refresh heartbeat for ${jobId}:`, error));
+  }, SYNC_JOB_HEARTBEAT_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+// Record the final state of a job after its work finished or threw.
+export async function finishJob(
+  jobId: string,
+  error: unknown,
+  data: { itemsProcessed?: number } = {}
+) {
+  const status = !error
+    ? "completed"
+    : error instanceof SyncJobCancelledError
+      ? "cancelled"
+      : "failed";
+  if (status === "failed") {
+    console.error("Sync error:", error);
+  }
+
+  try {
+    await prisma.syncJob.update({
+      where: { id: jobId },
+      data: {
+        ...data,
+        status,
+        completedAt: new Date(),
+        errorMessage:
+          status === "failed"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : null,
+        rateLimitRemaining: getRateLimitStatus().rest.remaining,
+      },
+    });
+  } catch (dbError) {
+    console.error("Failed to update sync job status:", dbError);
+  }
+}
+
+function parseJson<T>(raw: string | null): T | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+function initialCheckpoint(params: SyncSamplingParams | null): SyncCheckpoint {
+  return {
+    phase: params?.refresh
+      ? "refresh"
+      : params?.prs
+        ? "prs"
+        : params?.users
+          ? "users"
+          : params?.repos
+            ? "repos"
+            : "done",
+    lastUserId: null,
+    bandIndex: 0,
+    userOffset: 0,
+    languageIndex: 0,
+    repoOffset: 0,
+  };
+}
+
+export function toSyncJobProgress(job: SyncJobRow): SyncJobProgress {
+  const params = parseJson<SyncSamplingParams>(job.samplingParams);
+  const checkpoint = parseJson<SyncCheckpoint>(job.checkpoint);
+  return {
+    id: job.id,
+    jobType: job.jobType,
+    status: job.status,
+    phase: checkpoint?.phase ?? null,
+    currentBand: job.currentBand,
+    totalBands: params?.users?.bands.length ?? null,
+    usersDone: job.usersDone,
+    reposDone: job.reposDone,
+    itemsProcessed: job.itemsProcessed,
+    statsPending: job.statsPending,
+    statsAbandoned: job.statsAbandoned,
+    startedAt: job.startedAt?.toISOString() ?? null,
+    completedAt: job.completedAt?.toISOString() ?? null,
+    errorMessage: job.errorMessage,
+    resumable:
+      isResumableJobType(job.jobType) &&
+      (job.status === "failed" || job.status === "cancelled"),
+  };
+}
+
+// Kick off a job without waiting for it; progress is tracked on the SyncJob row.
+export function startSyncJob(jobId: string) {
+  void runSyncJob(jobId).catch((error) => {
+    console.error(`Sync job ${jobId} crashed:`, error);
+  });
+}
+
+// Run (or resume) a sync job from its stored checkpoint. The checkpoint is
+// persisted after every user and repo, so a crashed, failed or cancelled job
+// can pick up from the last completed item instead of restarting from band one.
+export async function runSyncJob(jobId: string) {
+  if (activeJobs.has(jobId)) return;
+  activeJobs.add(jobId);
+
+  try {
+    const job = await prisma.syncJob.findUnique({ where: { id: jobId } });
+    if (!job) return;
+    if (job.cancelRequestedAt) {
+      await finishJob(jobId, new SyncJobCancelledError(jobId));
+      return;
+    }
+
+    const params = parseJson<SyncSamplingParams>(job.samplingParams);
+    const checkpoint =
+      parseJson<SyncCheckpoint>(job.checkpoint) ?? initialCheckpoint(params);
+
+    let itemsProcessed = job.itemsProcessed;
+    let usersDone = job.usersDone;
+    let reposDone = job.reposDone;
+    let currentBand = job.currentBand;
+    let statsPending = job.statsPending;
+    let statsAbandoned = job.statsAbandoned;
+
+    const saveProgress = () =>
+      touchJob(jobId, {
+        checkpoint: JSON.stringify(checkpoint),
+        currentBand,
+        usersDone,
+        reposDone,
+        itemsProcessed,
+        statsPending,
+        statsAbandoned,
+        rateLimitRemaining: getRateLimitStatus().rest.remaining,
+      });
+
+    await prisma.syncJob.update({
+      where: { id: jobId },
+      data: {
+        status: "running",
+        startedAt: job.startedAt ?? new Date(),
+        completedAt: null,
+        errorMessage: null,
+        heartbeatAt: new Date(),
+        checkpoint: JSON.stringify(checkpoint),
+      },
+    });
+
+    const stopHeartbeat = keepJobAlive(jobId);
+    let failure: unknown = null;
+    try {
+      if (checkpoint.phase === "refresh" && params?.refresh) {
+        await refreshStaleUsers({
+          staleDays: params.refresh.staleDays,
+          incremental: params.refresh.incremental,
+          afterUserId: checkpoint.lastUserId,
+          onUserDone: async (userId, synced) => {
+            usersDone++;
+            if (synced) itemsProcessed++;
+            checkpoint.lastUserId = userId;
+            await saveProgress();
+          },
+        });
+        checkpoint.phase = "done";
+        await saveProgress();
+      }
+
+      if (checkpoint.phase === "prs" && params?.prs) {
+        await syncUserPullRequests({
+          fromYear: params.prs.fromYear,
+          afterUserId: checkpoint.lastUserId,
+          onUserDone: async (userId, synced) => {
+            usersDone++;
+            if (synced) itemsProcessed++;
+            checkpoint.lastUserId = userId;
+            await saveProgress();
+          },
+        });
+        checkpoint.phase = "done";
+        await saveProgress();
+      }
+
+      if (checkpoint.phase === "users" && params?.users) {
+        await syncUsers(job.samplingSeed ?? DEFAULT_SAMPLING_SEED, params.users.bands, {
+          perPage: params.users.perPage,
+          pagesPerOrder: params.users.pagesPerOrder,
+          incremental: params.users.incremental,
+          from: { bandIndex: checkpoint.bandIndex, userOffset: checkpoint.userOffset },
+          onBandStart: async (bandIndex) => {
+            currentBand = bandIndex;
+            await saveProgress();
+          },
+          onUserDone: async (cursor, synced) => {
+            usersDone++;
+            if (synced) itemsProcessed++;
+            checkpoint.bandIndex = cursor.bandIndex;
+            checkpoint.userOffset = cursor.userOffset;
+            await saveProgress();
+          },
+        });
+        checkpoint.phase = params.repos ? "repos" : "done";
+        await saveProgress();
+      }
+
+      if (checkpoint.phase === "repos" && params?.repos) {
+        await syncRepos({
+          languageCount: params.repos.languages.length,
+          reposPerLanguage: params.repos.reposPerLanguage,
+          minStars: params.repos.minStars,
+          historyFromYear: params.repos.historyFromYear,
+          from: {
+            languageIndex: checkpoint.languageIndex,
+            repoOffset: checkpoint.repoOffset,
+          },
+          onRepoDone: async (cursor, synced) => {
+            reposDone++;
+            if (synced) itemsProcessed++;
+            checkpoint.languageIndex = cursor.languageIndex;
+            checkpoint.repoOffset = cursor.repoOffset;
+            await saveProgress();
+          },
+        });
+        checkpoint.phase = "stats";
+        await saveProgress();
+      }
+
+      if (checkpoint.phase === "stats" && params?.repos) {
+        const { stillPending, abandoned } = await retryPendingRepoStats({
+          onPoll: async () => {
+            await saveProgress();
+          },
+        });
+        statsPending = stillPending;
+        statsAbandoned = (statsAbandoned ?? 0) + abandoned;
+        checkpoint.phase = "done";
+        await saveProgress();
+      }
+    } catch (error) {
+      failure = error;
+    } finally {
+      stopHeartbeat();
+    }
+
+    await finishJob(jobId, failure, { itemsProcessed });
+
+    // Refresh the GlobalDailyMetrics rollup for the days this job wrote,
+    // including partial writes of a failed or cancelled job.
+    try {
+      const rebuilt = await rebuildDirtyRollup();
+      if (rebuilt > 0) console.log(`[Rollup] rebuilt ${rebuilt} daily rows`);
+    } catch (error) {
+      console.warn("[Rollup] rebuild failed:", error);
+    }
+
+    // A sync is the main writer to APICache; trim what it left expired.
+    try {
+      const evicted = await evictExpiredCache();
+      if (evicted > 0) console.log(`[APICache] evicted ${evicted} expired entries`);
+    } catch (error) {
+      console.warn("[APICache] eviction failed:", error);
+    }
+  } finally {
+    activeJobs.delete(jobId);
+  }
+}
@@ -0,0 +1,1435 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import {
+  searchUsers,
+  searchRepos,
+  getUser,
+  getUserContributions,
+  getUserContributionsBatch,
+  getUserContributionTotals,
+  type UserContributionsCollection,
+  type UserContributionTypeTotals,
+  getContributorStats,
+  getRepoPullRequests,
+  getRepoIssues,
+  getUserPullRequests,
+  type PullRequestSummary,
+  type IssueSummary,
+} from "@/lib/github";
+import { githubNow, githubSleep } from "@/lib/github-transport";
+import { isBotActivity, isBotLogin } from "@/lib/bots";
+import { mulberry32 } from "@/lib/random";
+import { markRollupDirty } from "@/lib/rollup";
+import { TRACKED_LANGUAGES } from "@/types/metrics";
+
+export interface UserBand {
+  tier: "top" | "mid" | "casual";
+  minFollowers: number;
+  maxFollowers: number | null;
+  target: number;
+}
+
+export const USER_BANDS: UserBand[] = [
+  { tier: "top", minFollowers: 10000, maxFollowers: null, target: 100 },
+  { tier: "top", minFollowers: 5000, maxFollowers: 10000, target: 100 },
+  { tier: "mid", minFollowers: 2000, maxFollowers: 5000, target: 100 },
+  { tier: "mid", minFollowers: 1000, maxFollowers: 2000, target: 100 },
+  { tier: "mid", minFollowers: 500, maxFollowers: 1000, target: 100 },
+  { tier: "casual", minFollowers: 300, maxFollowers: 500, target: 100 },
+  { tier: "casual", minFollowers: 200, maxFollowers: 300, target: 100 },
+  { tier: "casual", minFollowers: 150, maxFollowers: 200, target: 100 },
+  { tier: "casual", minFollowers: 100, maxFollowers: 150, target: 100 },
+  { tier: "casual", minFollowers: 50, maxFollowers: 100, target: 100 },
+];
+
+export const BASELINE_YEARS = [2020, 2021] as const;
+const baselineMinRaw = Number(process.env.BASELINE_MIN_CONTRIBUTIONS ?? 50);
+export const BASELINE_MIN_CONTRIBUTIONS = Number.isFinite(baselineMinRaw)
+  ? baselineMinRaw
+  : 50;
+const seedRaw = Number(process.env.SAMPLING_SEED ?? 42);
+export const DEFAULT_SAMPLING_SEED = Number.isFinite(seedRaw) ? seedRaw : 42;
+
+const usersPerBandEnvRaw = process.env.USERS_PER_BAND
+  ? Number(process.env.USERS_PER_BAND)
+  : NaN;
+export const USERS_PER_BAND_ENV = Number.isFinite(usersPerBandEnvRaw)
+  ? usersPerBandEnvRaw
+  : null;
+
+const userSearchPerPageEnvRaw = process.env.USER_SEARCH_PER_PAGE
+  ? Number(process.env.USER_SEARCH_PER_PAGE)
+  : NaN;
+export const USER_SEARCH_PER_PAGE_ENV = Number.isFinite(userSearchPerPageEnvRaw)
+  ? userSearchPerPageEnvRaw
+  : 100;
+
+const userSearchPagesPerOrderEnvRaw = process.env.USER_SEARCH_PAGES_PER_ORDER
+  ? Number(process.env.USER_SEARCH_PAGES_PER_ORDER)
+  : NaN;
+export const USER_SEARCH_PAGES_PER_ORDER_ENV = Number.isFinite(userSearchPagesPerOrderEnvRaw)
+  ? userSearchPagesPerOrderEnvRaw
+  : 2;
+
+const repoLanguageCountEnvRaw = process.env.REPO_LANGUAGE_COUNT
+  ? Number(process.env.REPO_LANGUAGE_COUNT)
+  : NaN;
+export const REPO_LANGUAGE_COUNT_ENV = Number.isFinite(repoLanguageCountEnvRaw)
+  ? repoLanguageCountEnvRaw
+  : 5;
+
+const reposPerLanguageEnvRaw = process.env.REPOS_PER_LANGUAGE
+  ? Number(process.env.REPOS_PER_LANGUAGE)
+  : NaN;
+export const REPOS_PER_LANGUAGE_ENV = Number.isFinite(reposPerLanguageEnvRaw)
+  ? reposPerLanguageEnvRaw
+  : 10;
+
+const repoMinStarsEnvRaw = process.env.REPO_MIN_STARS
+  ? Number(process.env.REPO_MIN_STARS)
+  : NaN;
+export const REPO_MIN_STARS_ENV = Number.isFinite(repoMinStarsEnvRaw)
+  ? repoMinStarsEnvRaw
+  : 5000;
+
+// PR and issue history for sampled repos reaches back to Jan 1 of this year
+const repoHistoryFromYearEnvRaw = process.env.REPO_HISTORY_FROM_YEAR
+  ? Number(process.env.REPO_HISTORY_FROM_YEAR)
+  : NaN;
+export const REPO_HISTORY_FROM_YEAR_ENV = Number.isFinite(repoHistoryFromYearEnvRaw)
+  ? repoHistoryFromYearEnvRaw
+  : BASELINE_YEARS[0];
+
+const userRefreshStaleDaysEnvRaw = process.env.USER_REFRESH_STALE_DAYS
+  ? Number(process.env.USER_REFRESH_STALE_DAYS)
+  : NaN;
+export const USER_REFRESH_STALE_DAYS_ENV = Number.isFinite(userRefreshStaleDaysEnvRaw)
+  ? userRefreshStaleDaysEnvRaw
+  : 7;
+
+// Contributor stats that came back 202 are re-polled after this delay, and a
+// repos job keeps re-polling for up to the retry window before finishing.
+const statsRetryDelayRaw = Number(process.env.STATS_RETRY_DELAY_MS ?? 60_000);
+const STATS_RETRY_DELAY_MS = Number.isFinite(statsRetryDelayRaw)
+  ? Math.max(0, statsRetryDelayRaw)
+  : 60_000;
+
+const statsRetryWindowRaw = Number(process.env.STATS_RETRY_WINDOW_MS ?? 5 * 60_000);
+export const STATS_RETRY_WINDOW_MS_ENV = Number.isFinite(statsRetryWindowRaw)
+  ? Math.max(0, statsRetryWindowRaw)
+  : 5 * 60_000;
+
+// Repos still computing stats after this many polls are dropped from the queue
+const statsMaxAttemptsRaw = Number(process.env.STATS_MAX_ATTEMPTS ?? 10);
+export const STATS_MAX_ATTEMPTS_ENV = Number.isFinite(statsMaxAttemptsRaw)
+  ? Math.max(1, Math.trunc(statsMaxAttemptsRaw))
+  : 10;
+
+export function clampInt(n: number, min: number, max: number) {
+  if (!Number.isFinite(n)) return min;
+  return Math.min(max, Math.max(min, Math.trunc(n)));
+}
+
+async function upsertUserContributionMetricsBatch(
+  rows: Array<{ id: string; date: Date; userId: string; contributionCount: number }>
+) {
+  if (rows.length === 0) return;
+  await prisma.$executeRaw(
+    Prisma.sql`
+      INSERT INTO UserContributionMetrics (id, date, userId, contributionCount)
+      VALUES ${Prisma.join(
+        rows.map(
+          (r) => Prisma.sql`(${r.id}, ${r.date}, ${r.userId}, ${r.contributionCount})`
+        )
+      )}
+      ON CONFLICT(date, userId)
+      DO UPDATE SET contributionCount = excluded.contributionCount
+    `
+  );
+  await markRollupDirty(rows.map((r) => r.date));
+}
+
+export function resolveUserBands(usersPerBandOverride: number | null): UserBand[] {
+  if (usersPerBandOverride != null) {
+    return USER_BANDS.map((b) => ({ ...b, target: usersPerBandOverride }));
+  }
+  if (USERS_PER_BAND_ENV != null) {
+    return USER_BANDS.map((b) => ({ ...b, target: USERS_PER_BAND_ENV }));
+  }
+  return USER_BANDS;
+}
+
+// Position inside a user sync: the band being sampled and the next candidate
+// index within that band. Candidates are deterministic for a given seed, so a
+// cursor is enough to resume a sync where it stopped.
+export interface UserSyncCursor {
+  bandIndex: number;
+  userOffset: number;
+}
+
+// Position inside a repo sync: the language being sampled and the next repo
+// index within that language.
+export interface RepoSyncCursor {
+  languageIndex: number;
+  repoOffset: number;
+}
+
+// Sample users across tiers - 1000 users total
+export async function syncUsers(
+  baseSeed: number,
+  bands: UserBand[],
+  options?: {
+    perPage?: number;
+    pagesPerOrder?: number;
+    from?: UserSyncCursor;
+    onBandStart?: (bandIndex: number) => Promise<void>;
+    onUserDone?: (cursor: UserSyncCursor, synced: boolean) => Promise<void>;
+    incremental?: boolean;
+  }
+): Promise<number> {
+  let processed = 0;
+  const perPage = clampInt(options?.perPage ?? 100, 1, 100);
+  const pagesPerOrder = clampInt(options?.pagesPerOrder ?? 2, 1, 10);
+  const from = options?.from ?? { bandIndex: 0, userOffset: 0 };
+
+  for (let bandIndex = from.bandIndex; bandIndex < bands.length; bandIndex++) {
+    const band = bands[bandIndex];
+    await options?.onBandStart?.(bandIndex);
+
+    const bandSeed = makeBandSeed(
+      baseSeed,
+      band.minFollowers,
+      band.maxFollowers
+    );
+    const candidates = await sampleUsersFromBand(
+      band.minFollowers,
+      band.maxFollowers,
+      band.target,
+      bandSeed,
+      perPage,
+      pagesPerOrder
+    );
+
+    const startOffset = bandIndex === from.bandIndex ? from.userOffset : 0;
+    let prefetched = new Map<string, UserContributionsCollection>();
+    for (let i = startOffset; i < candidates.length; i++) {
+      if ((i - startOffset) % BASELINE_PREFETCH_USERS === 0) {
+        prefetched = await prefetchBaselines(
+          candidates.slice(i, i + BASELINE_PREFETCH_USERS),
+          options?.incremental ?? false
+        );
+      }
+
+      const user = candidates[i];
+      let ok = false;
+      try {
+        ok = await upsertUser(user, band.tier, {
+          incremental: options?.incremental,
+          prefetched,
+        });
+        if (ok) processed++;
+      } catch (error) {
+        console.error(`Failed to sync user ${user.login}:`, error);
+      }
+      await options?.onUserDone?.({ bandIndex, userOffset: i + 1 }, ok);
+    }
+  }
+
+  return processed;
+}
+
+// Batch-fetch baseline years for upcoming candidates. In incremental mode,
+// users already in the cohort are skipped since they don't re-check the baseline.
+async function prefetchBaselines(candidates: SearchUserResult[], incremental: boolean) {
+  let logins = candidates.map((c) => c.login);
+  if (incremental) {
+    const known = await prisma.sampledUser.findMany({
+      where: { githubId: { in: candidates.map((c) => c.id) } },
+      select: { username: true },
+    });
+    const knownLogins = new Set(known.map((u) => u.username));
+    logins = logins.filter((login) => !knownLogins.has(login));
+  }
+  return fetchYearWindows(logins, BASELINE_YEARS);
+}
+
+type SearchUserResult = {
+  id: number;
+  login: string;
+  avatar_url: string;
+  html_url: string;
+};
+
+function makeBandSeed(
+  baseSeed: number,
+  minFollowers: number,
+  maxFollowers: number | null
+) {
+  const max = maxFollowers ?? 0;
+  return (
+    (baseSeed + minFollowers * 31 + max * 17) >>> 0
+  );
+}
+
+function shuffleInPlace<T>(items: T[], seed: number) {
+  const rng = mulberry32(seed);
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+}
+
+async function sampleUsersFromBand(
+  minFollowers: number,
+  maxFollowers: number | null,
+  target: number,
+  seed: number,
+  perPage = 100,
+  pagesPerOrder = 2
+): Promise<SearchUserResult[]> {
+  const results: SearchUserResult[] = [];
+  const orders: Array<"asc" | "desc"> = ["desc", "asc"];
+
+  for (const order of orders) {
+    for (let page = 1; page <= pagesPerOrder; page++) {
+      const pageResults = await searchUsers(minFollowers, maxFollowers, perPage, page, order);
+      results.push(...pageResults);
+    }
+  }
+
+  const deduped = Array.from(new Map(results.map((r) => [r.id, r])).values());
+  shuffleInPlace(deduped, seed);
+  return deduped.slice(0, target);
+}
+
+// Users whose baseline years are fetched together in one batched query
+const BASELINE_PREFETCH_USERS = 10;
+
+type YearWindow = { year: number; start: Date; end: Date };
+
+function yearWindow(year: number, now = githubNow()): YearWindow | null {
+  const start = new Date(year, 0, 1); // Jan 1
+  const end = new Date(year, 11, 31, 23, 59, 59); // Dec 31
+  if (start > now) return null;
+  return { year, start, end: end > now ? now : end };
+}
+
+// Fetch year windows for several users through batched GraphQL queries, keyed
+// by `${login}:${year}`. Windows that failed are left out so callers fall back
+// to fetching them one at a time.
+async function fetchYearWindows(logins: string[], years: readonly number[]) {
+  const now = githubNow();
+  const windows = years
+    .map((year) => yearWindow(year, now))
+    .filter((w): w is YearWindow => w != null);
+  const requests = logins.flatMap((login) =>
+    windows.map((w) => ({
+      key: `${login}:${w.year}`,
+      username: login,
+      from: w.start.toISOString(),
+      to: w.end.toISOString(),
+    }))
+  );
+
+  const collections = new Map<string, UserContributionsCollection>();
+  if (requests.length === 0) return collections;
+
+  try {
+    const results = await getUserContributionsBatch(requests);
+    results.forEach((collection, i) => {
+      if (collection) collections.set(requests[i].key, collection);
+    });
+  } catch (error) {
+    console.error(`Batched contribution fetch failed for ${logins.length} users:`, error);
+  }
+  return collections;
+}
+
+// Store contribution calendar days in [startDate, endDate] (at most one year,
+// a GraphQL limit), fetching them unless already prefetched. Only non-zero
+// days are stored. When the window covers `year` from Jan 1, the per-type
+// totals are stored for that year too. Returns the window total.
+async function collectContributions(
+  userId: string,
+  login: string,
+  startDate: Date,
+  endDate: Date,
+  prefetched?: UserContributionsCollection,
+  year?: number
+): Promise<number> {
+  const contributions =
+    prefetched ??
+    (await getUserContributions(
+      login,
+      startDate.toISOString(),
+      endDate.toISOString()
+    ));
+
+  const rows: Array<{
+    id: string;
+    date: Date;
+    userId: string;
+    contributionCount: number;
+  }> = [];
+  let total = 0;
+
+  for (const week of contributions.contributionCalendar.weeks) {
+    for (const day of week.contributionDays) {
+      if (day.contributionCount > 0) {
+        rows.push({
+          id: `${userId}:${day.date}`,
+          date: new Date(day.date),
+          userId,
+          contributionCount: day.contributionCount,
+        });
+        total += day.contributionCount;
+      }
+    }
+  }
+
+  const chunkSize = 200;
+  for (let i = 0; i < rows.length; i += chunkSize) {
+    await upsertUserContributionMetricsBatch(rows.slice(i, i + chunkSize));
+  }
+
+  if (year != null) {
+    await storeContributionTotals(userId, year, endDate, contributions);
+  }
+
+  return total;
+}
+
+// Store the per-type totals of `year` from Jan 1 up to periodEnd
+async function storeContributionTotals(
+  userId: string,
+  year: number,
+  periodEnd: Date,
+  contributions: UserContributionTypeTotals
+) {
+  const totals = {
+    periodEnd,
+    commitContributions: contributions.totalCommitContributions,
+    pullRequestContributions: contributions.totalPullRequestContributions,
+    reviewContributions: contributions.totalPullRequestReviewContributions,
+    issueContributions: contributions.totalIssueContributions,
+  };
+  await prisma.userContributionTotals.upsert({
+    where: { userId_year: { userId, year } },
+    create: { userId, year, ...totals },
+    update: totals,
+  });
+}
+
+async function markUserDaysDirty(userId: string) {
+  const range = await prisma.userContributionMetrics.aggregate({
+    where: { userId },
+    _min: { date: true },
+    _max: { date: true },
+  });
+  if (range._min.date && range._max.date) {
+    await markRollupDirty([range._min.date, range._max.date]);
+  }
+}
+
+async function upsertUser(
+  searchResult: { id: number; login: string; avatar_url: string; html_url: string },
+  tier: string,
+  options?: {
+    incremental?: boolean;
+    // Year windows already fetched in a batch, keyed by `${login}:${year}`
+    prefetched?: Map<string, UserContributionsCollection>;
+  }
+): Promise<boolean> {
+  // Get full user details
+  let userDetails: Awaited<ReturnType<typeof getUser>>;
+  try {
+    userDetails = await getUser(searchResult.login);
+  } catch (error) {
+    console.error(`Failed to fetch user profile for ${searchResult.login}:`, error);
+    return false;
+  }
+
+  // Skip orgs and obvious bots
+  if (userDetails.type !== "User" || isBotLogin(searchResult.login)) {
+    return false;
+  }
+
+  // Users already in the cohort passed the baseline gate; in incremental mode
+  // only the days since their last sync are fetched.
+  const previous = await prisma.sampledUser.findUnique({
+    where: { githubId: searchResult.id },
+  });
+  const existing = options?.incremental ? previous : null;
+
+  // Upsert the user first to get the userId
+  const user = await prisma.sampledUser.upsert({
+    where: { githubId: searchResult.id },
+    create: {
+      githubId: searchResult.id,
+      username: searchResult.login,
+      tier,
+      avatarUrl: searchResult.avatar_url,
+      profileUrl: searchResult.html_url,
+      publicRepos: userDetails.public_repos,
+      followers: userDetails.followers,
+      totalContributions: 0,
+      lastSyncedAt: githubNow(),
+    },
+    update: {
+      tier,
+      avatarUrl: searchResult.avatar_url,
+      publicRepos: userDetails.public_repos,
+      followers: userDetails.followers,
+      lastSyncedAt: githubNow(),
+    },
+  });
+
+  // The rollup splits contributions by tier, so a move re-rolls all of the user's days
+  if (previous && previous.tier !== tier) {
+    await markUserDaysDirty(user.id);
+  }
+
+  if (existing) {
+    return refreshUserContributions({
+      id: user.id,
+      username: user.username,
+      lastSyncedAt: existing.lastSyncedAt,
+    });
+  }
+
+  // Collect contribution data for multiple years (2020-2025)
+  // GitHub GraphQL only allows 1 year at a time
+  const years = [2020, 2021, 2022, 2023, 2024, 2025];
+  const baselineYears = new Set<number>(BASELINE_YEARS);
+  const postYears = years.filter((y) => !baselineYears.has(y));
+  let totalContributions = 0;
+  let baselineContributions = 0;
+
+  const prefetched = new Map(options?.prefetched);
+  const collectYear = async (year: number) => {
+    const window = yearWindow(year);
+    if (!window) return 0;
+
+    return collectContributions(
+      user.id,
+      searchResult.login,
+      window.start,
+      window.end,
+      prefetched.get(`${searchResult.login}:${year}`),
+      year
+    );
+  };
+
+  let baselineFetchFailed = false;
+  for (const year of BASELINE_YEARS) {
+    try {
+      baselineContributions += await collectYear(year);
+    } catch (error) {
+      baselineFetchFailed = true;
+      console.error(
+        `Failed to get baseline contributions for ${searchResult.login} in ${year}:`,
+        error
+      );
+    }
+  }
+
+  if (baselineFetchFailed || baselineContributions < BASELINE_MIN_CONTRIBUTIONS) {
+    await prisma.sampledUser.delete({ where: { id: user.id } });
+    return false;
+  }
+
+  totalContributions += baselineContributions;
+  const postWindows = await fetchYearWindows([searchResult.login], postYears);
+  for (const [key, collection] of postWindows) {
+    prefetched.set(key, collection);
+  }
+  for (const year of postYears) {
+    try {
+      totalContributions += await collectYear(year);
+    } catch (error) {
+      console.error(
+        `Failed to get contributions for ${searchResult.login} in ${year}:`,
+        error
+      );
+    }
+  }
+
+  // Update total contributions on user
+  await prisma.sampledUser.update({
+    where: { id: user.id },
+    data: { totalContributions, baselineContributions },
+  });
+
+  return true;
+}
+
+// Fetch only the contribution days since the user's last stored day (or last
+// sync) up to now. Past calendar days don't change, so this is all a periodic
+// refresh needs. The per-type yearly totals are whole-year figures, so for years
+// whose totals are missing or were taken before the year ended they come from
+// a separate totals-only query from Jan 1 (no calendar, so it stays cheap).
+async function refreshUserContributions(user: {
+  id: string;
+  username: string;
+  lastSyncedAt: Date | null;
+}): Promise<boolean> {
+  const lastDay = await prisma.userContributionMetrics.findFirst({
+    where: { userId: user.id },
+    orderBy: { date: "desc" },
+    select: { date: true },
+  });
+
+  const now = githubNow();
+  const since =
+    lastDay?.date ?? user.lastSyncedAt ?? new Date(Date.UTC(BASELINE_YEARS[0], 0, 1));
+
+  // GitHub GraphQL only allows 1 year at a time, so split on calendar years
+  const windows: Array<{ year: number; yearStart: Date; start: Date; end: Date }> = [];
+  for (let year = since.getUTCFullYear(); year <= now.getUTCFullYear(); year++) {
+    const yearStart = new Date(Date.UTC(year, 0, 1));
+    const yearEnd = new Date(Date.UTC(year, 11, 31, 23, 59, 59));
+    windows.push({
+      year,
+      yearStart,
+      start: since > yearStart ? since : yearStart,
+      end: yearEnd > now ? now : yearEnd,
+    });
+  }
+
+  // Totals taken on Dec 31 cover their whole year and won't change
+  const storedTotals = await prisma.userContributionTotals.findMany({
+    where: { userId: user.id, year: { gte: since.getUTCFullYear() } },
+    select: { year: true, periodEnd: true },
+  });
+  const closedYears = new Set(
+    storedTotals
+      .filter((t) => t.periodEnd.getTime() >= Date.UTC(t.year, 11, 31))
+      .map((t) => t.year)
+  );
+
+  let prefetched: Array<UserContributionsCollection | null> = [];
+  try {
+    prefetched = await getUserContributionsBatch(
+      windows.map((w) => ({
+        username: user.username,
+        from: w.start.toISOString(),
+        to: w.end.toISOString(),
+      }))
+    );
+  } catch (error) {
+    console.error(`Batched contribution fetch failed for ${user.username}:`, error);
+  }
+
+  for (let i = 0; i < windows.length; i++) {
+    const { year, yearStart, start, end } = windows[i];
+    const needsTotals = !closedYears.has(year);
+    const fromYearStart = start.getTime() === yearStart.getTime();
+    try {
+      await collectContributions(
+        user.id,
+        user.username,
+        start,
+        end,
+        prefetched[i] ?? undefined,
+        needsTotals && fromYearStart ? year : undefined
+      );
+
+      if (needsTotals && !fromYearStart) {
+        const totals = await getUserContributionTotals(
+          user.username,
+          yearStart.toISOString(),
+          end.toISOString()
+        );
+        await storeContributionTotals(user.id, year, end, totals);
+      }
+    } catch (error) {
+      console.error(
+        `Failed to refresh contributions for ${user.username} from ${start.toISOString()}:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  const totals = await prisma.userContributionMetrics.aggregate({
+    where: { userId: user.id },
+    _sum: { contributionCount: true },
+  });
+
+  await prisma.sampledUser.update({
+    where: { id: user.id },
+    data: {
+      totalContributions: totals._sum.contributionCount ?? 0,
+      lastSyncedAt: now,
+    },
+  });
+
+  return true;
+}
+
+// Re-sync users already in the cohort whose last sync is older than
+// `staleDays`, in id order so a job can resume after the last user it finished.
+export async function refreshStaleUsers(options: {
+  staleDays: number;
+  incremental?: boolean;
+  afterUserId?: string | null;
+  onUserDone?: (userId: string, synced: boolean) => Promise<void>;
+}): Promise<number> {
+  let processed = 0;
+  const cutoff = new Date(githubNow().getTime() - options.staleDays * 24 * 60 * 60 * 1000);
+  const incremental = options.incremental ?? true;
+
+  const users = await prisma.sampledUser.findMany({
+    where: {
+      OR: [{ lastSyncedAt: { lt: cutoff } }, { lastSyncedAt: null }],
+      ...(options.afterUserId ? { id: { gt: options.afterUserId } } : {}),
+    },
+    orderBy: { id: "asc" },
+  });
+
+  for (const user of users) {
+    let ok = false;
+    try {
+      ok = incremental
+        ? await refreshUserContributions(user)
+        : await upsertUser(
+            {
+              id: user.githubId,
+              login: user.username,
+              avatar_url: user.avatarUrl ?? "",
+              html_url: user.profileUrl ?? "",
+            },
+            user.tier
+          );
+      if (ok) processed++;
+    } catch (error) {
+      console.error(`Failed to refresh user ${user.username}:`, error);
+    }
+    await options.onUserDone?.(user.id, ok);
+  }
+
+  return processed;
+}
+
+// Collect the pull requests each sampled user opened since Jan 1 of
+// `fromYear` into user-level PRMetrics rows (repoId null). Users run in id
+// order so a job can resume after the last user it finished.
+export async function syncUserPullRequests(options: {
+  fromYear: number;
+  afterUserId?: string | null;
+  onUserDone?: (userId: string, synced: boolean) => Promise<void>;
+}): Promise<number> {
+  let processed = 0;
+  const now = githubNow();
+
+  const users = await prisma.sampledUser.findMany({
+    where: options.afterUserId ? { id: { gt: options.afterUserId } } : undefined,
+    select: { id: true, username: true },
+    orderBy: { id: "asc" },
+  });
+
+  for (const user of users) {
+    let ok = false;
+    try {
+      const prs: PullRequestSummary[] = [];
+      const windowStart = new Date(Date.UTC(options.fromYear, 0, 1));
+      // GitHub GraphQL only allows 1 year at a time
+      for (let year = options.fromYear; year <= now.getUTCFullYear(); year++) {
+        const yearEnd = new Date(Date.UTC(year, 11, 31, 23, 59, 59));
+        prs.push(
+          ...(await getUserPullRequests(
+            user.username,
+            new Date(Date.UTC(year, 0, 1)).toISOString(),
+            (yearEnd > now ? now : yearEnd).toISOString()
+          ))
+        );
+      }
+      await processUserPRs(user.id, prs, windowStart);
+      ok = true;
+      processed++;
+    } catch (error) {
+      console.error(`Failed to sync pull requests for ${user.username}:`, error);
+    }
+    await options.onUserDone?.(user.id, ok);
+  }
+
+  return processed;
+}
+
+// Sample repos across languages
+export async function syncRepos(options?: {
+  languageCount?: number;
+  reposPerLanguage?: number;
+  minStars?: number;
+  historyFromYear?: number;
+  from?: RepoSyncCursor;
+  onRepoDone?: (cursor: RepoSyncCursor, synced: boolean) => Promise<void>;
+}): Promise<number> {
+  let count = 0;
+
+  const languageCount = clampInt(options?.languageCount ?? 5, 1, TRACKED_LANGUAGES.length);
+  const reposPerLanguage = clampInt(options?.reposPerLanguage ?? 10, 1, 1000);
+  const minStars = Number.isFinite(options?.minStars ?? NaN)
+    ? Math.max(0, options?.minStars ?? 0)
+    : 5000;
+  const historyFromYear = clampInt(
+    options?.historyFromYear ?? REPO_HISTORY_FROM_YEAR_ENV,
+    2008,
+    githubNow().getUTCFullYear()
+  );
+  const historySince = new Date(Date.UTC(historyFromYear, 0, 1)).toISOString();
+  const from = options?.from ?? { languageIndex: 0, repoOffset: 0 };
+  const languages = TRACKED_LANGUAGES.slice(0, languageCount);
+
+  for (
+    let languageIndex = from.languageIndex;
+    languageIndex < languages.length;
+    languageIndex++
+  ) {
+    const language = languages[languageIndex];
+    const repos = await fetchReposForLanguage(language, minStars, reposPerLanguage);
+
+    const startOffset = languageIndex === from.languageIndex ? from.repoOffset : 0;
+    for (let i = startOffset; i < repos.length; i++) {
+      const repo = repos[i];
+      let synced = false;
+      // Skip repos without owner
+      if (repo.owner) {
+        await syncRepo(
+          {
+            id: repo.id,
+            full_name: repo.full_name,
+            name: repo.name,
+            owner: { login: repo.owner.login },
+            description: repo.description,
+            stargazers_count: repo.stargazers_count,
+            forks_count: repo.forks_count,
+            open_issues_count: repo.open_issues_count,
+          },
+          language,
+          { historySince }
+        );
+        count++;
+        synced = true;
+      }
+      await options?.onRepoDone?.({ languageIndex, repoOffset: i + 1 }, synced);
+    }
+  }
+
+  return count;
+}
+
+async function syncRepo(
+  repo: Parameters<typeof upsertRepo>[0],
+  language: string,
+  options: { historySince: string }
+) {
+  const stored = await upsertRepo(repo, language);
+
+  // Collect contributor stats for this repo. GitHub answers 202 while it
+  // computes them; those repos are queued and re-polled by retryPendingRepoStats.
+  try {
+    await pollRepoStats(stored);
+  } catch (error) {
+    console.error(`Failed to sync contributor stats for ${repo.full_name}:`, error);
+  }
+
+  // Collect PR and issue history since the study start for flow metrics
+  try {
+    const prs = await getRepoPullRequests(repo.owner.login, repo.name, options.historySince);
+    if (prs.length > 0) {
+      await processRepoPRs(repo.id, prs);
+    }
+  } catch (error) {
+    console.error(`Failed to sync PRs for ${repo.full_name}:`, error);
+  }
+
+  try {
+    const issues = await getRepoIssues(repo.owner.login, repo.name, options.historySince);
+    if (issues.length > 0) {
+      await processRepoIssues(repo.id, issues);
+    }
+  } catch (error) {
+    console.error(`Failed to sync issues for ${repo.full_name}:`, error);
+  }
+}
+
+async function fetchReposForLanguage(language: string, minStars: number, target: number) {
+  const perPage = clampInt(Math.min(100, target), 1, 100);
+  const pages = clampInt(Math.ceil(target / perPage), 1, 10);
+  const results: Array<Awaited<ReturnType<typeof searchRepos>>[number]> = [];
+
+  for (let page = 1; page <= pages; page++) {
+    const pageResults = await searchRepos(language, minStars, perPage, page);
+    results.push(...pageResults);
+    if (pageResults.length < perPage) break;
+  }
+
+  const deduped = Array.from(new Map(results.map((r) => [r.id, r])).values());
+  return deduped.slice(0, target);
+}
+
+async function upsertRepo(
+  repo: {
+    id: number;
+    full_name: string;
+    name: string;
+    owner: { login: string };
+    description: string | null;
+    stargazers_count: number;
+    forks_count: number;
+    open_issues_count: number;
+  },
+  language: string
+) {
+  return prisma.sampledRepo.upsert({
+    where: { githubId: repo.id },
+    create: {
+      githubId: repo.id,
+      fullName: repo.full_name,
+      name: repo.name,
+      owner: repo.owner.login,
+      description: repo.description,
+      primaryLanguage: language,
+      stars: repo.stargazers_count,
+      forks: repo.forks_count,
+      openIssues: repo.open_issues_count,
+      lastSyncedAt: new Date(),
+    },
+    update: {
+      stars: repo.stargazers_count,
+      forks: repo.forks_count,
+      openIssues: repo.open_issues_count,
+      lastSyncedAt: new Date(),
+    },
+  });
+}
+
+// Fetch contributor stats for a repo and store them, or queue the repo for a
+// later attempt if GitHub is still computing them. Returns true once stored.
+async function pollRepoStats(repo: { id: string; githubId: number; fullName: string }) {
+  const [owner, name] = repo.fullName.split("/");
+  const stats = await getContributorStats(owner, name);
+
+  if (!stats) {
+    const nextAttemptAt = new Date(githubNow().getTime() + STATS_RETRY_DELAY_MS);
+    await prisma.pendingRepoStats.upsert({
+      where: { repoId: repo.id },
+      create: { repoId: repo.id, nextAttemptAt },
+      update: { attempts: { increment: 1 }, nextAttemptAt },
+    });
+    return false;
+  }
+
+  await processRepoStats(repo.githubId, stats);
+  await prisma.pendingRepoStats.deleteMany({ where: { repoId: repo.id } });
+  return true;
+}
+
+// Drop queued repos that used up STATS_MAX_ATTEMPTS polls. Returns how many.
+async function dropExhaustedRepoStats() {
+  const exhausted = await prisma.pendingRepoStats.findMany({
+    where: { attempts: { gte: STATS_MAX_ATTEMPTS_ENV } },
+    include: { repo: { select: { fullName: true } } },
+  });
+  if (exhausted.length === 0) return 0;
+
+  await prisma.pendingRepoStats.deleteMany({
+    where: { id: { in: exhausted.map((entry) => entry.id) } },
+  });
+  console.warn(
+    `[Stats] gave up on contributor stats after ${STATS_MAX_ATTEMPTS_ENV} attempts: ${exhausted
+      .map((entry) => entry.repo.fullName)
+      .join(", ")}`
+  );
+  return exhausted.length;
+}
+
+// Re-poll repos whose stats were pending, including ones left over from
+// earlier jobs, until the queue is empty or the next attempt falls outside
+// `windowMs`. Repos still pending stay queued for the next job; repos that
+// reached STATS_MAX_ATTEMPTS are dropped and counted as abandoned.
+export async function retryPendingRepoStats(options?: {
+  windowMs?: number;
+  onPoll?: (resolved: number) => Promise<void>;
+}): Promise<{ resolved: number; stillPending: number; abandoned: number }> {
+  const deadline = githubNow().getTime() + (options?.windowMs ?? STATS_RETRY_WINDOW_MS_ENV);
+  let resolved = 0;
+  let abandoned = 0;
+
+  for (;;) {
+    abandoned += await dropExhaustedRepoStats();
+
+    const due = await prisma.pendingRepoStats.findMany({
+      where: { nextAttemptAt: { lte: githubNow() } },
+      include: { repo: true },
+      orderBy: { nextAttemptAt: "asc" },
+    });
+
+    for (const entry of due) {
+      try {
+        if (await pollRepoStats(entry.repo)) resolved++;
+      } catch (error) {
+        console.error(`Failed to re-poll contributor stats for ${entry.repo.fullName}:`, error);
+        await prisma.pendingRepoStats.update({
+          where: { id: entry.id },
+          data: {
+            attempts: { increment: 1 },
+            nextAttemptAt: new Date(githubNow().getTime() + STATS_RETRY_DELAY_MS),
+          },
+        });
+      }
+      await options?.onPoll?.(resolved);
+    }
+
+    const next = await prisma.pendingRepoStats.findFirst({
+      orderBy: { nextAttemptAt: "asc" },
+    });
+    if (!next || next.nextAttemptAt.getTime() > deadline) break;
+
+    await options?.onPoll?.(resolved);
+    await githubSleep(next.nextAttemptAt.getTime() - githubNow().getTime());
+  }
+
+  abandoned += await dropExhaustedRepoStats();
+  return { resolved, stillPending: await prisma.pendingRepoStats.count(), abandoned };
+}
+
+async function processRepoStats(
+  repoGithubId: number,
+  stats: Array<{
+    author: { id: number; login: string; type?: string } | null;
+    total: number;
+    weeks: Array<{ w?: number; a?: number; d?: number; c?: number }>;
+  }>
+) {
+  const repo = await prisma.sampledRepo.findUnique({
+    where: { githubId: repoGithubId },
+  });
+
+  if (!repo) return;
+
+  // Weekly totals keyed by `${weekTs}:${isBot}`, so bot commits land in their own rows
+  const weekMap = new Map<
+    string,
+    { weekTs: number; isBot: boolean; commits: number; added: number; removed: number }
+  >();
+  for (const contributor of stats) {
+    if (!contributor.author) continue;
+    const isBot = isBotLogin(contributor.author.login, contributor.author.type);
+    for (const week of contributor.weeks) {
+      if (!week.w) continue;
+      if (!week.c || week.c === 0) continue;
+
+      const key = `${week.w}:${isBot}`;
+      const existing =
+        weekMap.get(key) || { weekTs: week.w, isBot, commits: 0, added: 0, removed: 0 };
+      weekMap.set(key, {
+        ...existing,
+        commits: existing.commits + (week.c || 0),
+        added: existing.added + (week.a || 0),
+        removed: existing.removed + (week.d || 0),
+      });
+    }
+  }
+
+  const sortedWeeks = Array.from(weekMap.values()).sort((a, b) => a.weekTs - b.weekTs);
+  for (const totals of sortedWeeks) {
+    const weekDate = new Date(totals.weekTs * 1000);
+    const existing = await prisma.commitMetrics.findFirst({
+      where: {
+        date: weekDate,
+        repoId: repo.id,
+        language: repo.primaryLanguage,
+        userId: null,
+        isBot: totals.isBot,
+      },
+    });
+
+    if (existing) {
+      await prisma.commitMetrics.update({
+        where: { id: existing.id },
+        data: {
+          commitCount: totals.commits,
+          linesAdded: totals.added,
+          linesRemoved: totals.removed,
+        },
+      });
+    } else {
+      await prisma.commitMetrics.create({
+        data: {
+          date: weekDate,
+          repoId: repo.id,
+          language: repo.primaryLanguage,
+          isBot: totals.isBot,
+          commitCount: totals.commits,
+          linesAdded: totals.added,
+          linesRemoved: totals.removed,
+        },
+      });
+    }
+  }
+
+  await storeContributorWeeks(repo, stats);
+}
+
+// Replace the repo's per-author weeks with this stats snapshot, and mirror the
+// weeks of sampled users into CommitMetrics rows with userId (and repoId) set.
+async function storeContributorWeeks(
+  repo: { id: string; primaryLanguage: string },
+  stats: Parameters<typeof processRepoStats>[1]
+) {
+  const authorIds = stats.flatMap((contributor) =>
+    contributor.author ? [contributor.author.id] : []
+  );
+  const sampledUsers = await prisma.sampledUser.findMany({
+    where: { githubId: { in: authorIds } },
+    select: { id: true, githubId: true },
+  });
+  const userIdByGithubId = new Map(sampledUsers.map((u) => [u.githubId, u.id]));
+
+  const weeks: Prisma.RepoContributorWeekCreateManyInput[] = [];
+  for (const contributor of stats) {
+    if (!contributor.author) continue;
+    const { id: authorGithubId, login, type } = contributor.author;
+    const userId = userIdByGithubId.get(authorGithubId) ?? null;
+    const isBot = isBotLogin(login, type);
+
+    for (const week of contributor.weeks) {
+      if (!week.w || !week.c) continue;
+      weeks.push({
+        weekStart: new Date(week.w * 1000),
+        repoId: repo.id,
+        authorGithubId,
+        authorLogin: login,
+        userId,
+        isBot,
+        commitCount: week.c,
+        linesAdded: week.a || 0,
+        linesRemoved: week.d || 0,
+      });
+    }
+  }
+
+  const userRows = weeks.flatMap((week) =>
+    week.userId
+      ? [
+          {
+            date: week.weekStart,
+            userId: week.userId,
+            repoId: repo.id,
+            language: repo.primaryLanguage,
+            commitCount: week.commitCount,
+            linesAdded: week.linesAdded,
+            linesRemoved: week.linesRemoved,
+          },
+        ]
+      : []
+  );
+
+  await prisma.$transaction([
+    prisma.repoContributorWeek.deleteMany({ where: { repoId: repo.id } }),
+    prisma.repoContributorWeek.createMany({ data: weeks }),
+    prisma.commitMetrics.deleteMany({ where: { repoId: repo.id, userId: { not: null } } }),
+    prisma.commitMetrics.createMany({ data: userRows }),
+  ]);
+  await markRollupDirty(weeks.map((week) => new Date(week.weekStart)));
+}
+
+function normalizeToDay(dateStr: string): Date {
+  const d = new Date(dateStr);
+  d.setUTCHours(0, 0, 0, 0);
+  return d;
+}
+
+type PRDayAggregate = {
+  opened: number;
+  closed: number;
+  merged: number;
+  mergeHoursTotal: number;
+  mergeCount: number;
+  linesTotal: number;
+  reviewCyclesTotal: number;
+};
+
+type IssueDayAggregate = {
+  opened: number;
+  closed: number;
+  resolutionHoursTotal: number;
+  resolutionCount: number;
+};
+
+// Bucket PRs by UTC day. Lines and review cycles are attributed to the day a
+// PR was opened; a PR's review cycles are its change requests plus the final
+// round, or 0 if it was never reviewed.
+function aggregatePRsByDay(
+  prs: Array<
+    Pick<
+      PullRequestSummary,
+      | "createdAt"
+      | "mergedAt"
+      | "closedAt"
+      | "additions"
+      | "deletions"
+      | "reviewCount"
+      | "changesRequestedCount"
+    >
+  >
+) {
+  const dayMap = new Map<string, PRDayAggregate>();
+
+  const addToDay = (
+    dateStr: string | null | undefined,
+    fn: (entry: PRDayAggregate) => void
+  ) => {
+    if (!dateStr) return;
+    const key = normalizeToDay(dateStr).toISOString().slice(0, 10);
+    const entry =
+      dayMap.get(key) || {
+        opened: 0,
+        closed: 0,
+        merged: 0,
+        mergeHoursTotal: 0,
+        mergeCount: 0,
+        linesTotal: 0,
+        reviewCyclesTotal: 0,
+      };
+    fn(entry);
+    dayMap.set(key, entry);
+  };
+
+  for (const pr of prs) {
+    addToDay(pr.createdAt, (e) => {
+      e.opened += 1;
+      e.linesTotal += pr.additions + pr.deletions;
+      e.reviewCyclesTotal +=
+        pr.reviewCount > 0 ? pr.changesRequestedCount + 1 : 0;
+    });
+    addToDay(pr.closedAt, (e) => { e.closed += 1; });
+
+    if (pr.mergedAt) {
+      const mergedAt = pr.mergedAt;
+      addToDay(mergedAt, (e) => {
+        e.merged += 1;
+        const hours =
+          (new Date(mergedAt).getTime() - new Date(pr.createdAt).getTime()) /
+          (1000 * 60 * 60);
+        if (Number.isFinite(hours)) {
+          e.mergeHoursTotal += hours;
+          e.mergeCount += 1;
+        }
+      });
+    }
+  }
+
+  return dayMap;
+}
+
+function toPRMetricsData(data: PRDayAggregate) {
+  return {
+    prsOpened: data.opened,
+    prsClosed: data.closed,
+    prsMerged: data.merged,
+    avgTimeToMergeHrs:
+      data.mergeCount > 0 ? data.mergeHoursTotal / data.mergeCount : null,
+    avgLinesPerPR: data.opened > 0 ? data.linesTotal / data.opened : null,
+    avgReviewCycles: data.opened > 0 ? data.reviewCyclesTotal / data.opened : null,
+  };
+}
+
+// Item upserts are batched into transactions of this size
+const ITEM_WRITE_BATCH_SIZE = 100;
+
+// Store fetched PRs as items, then rebuild the repo's daily PRMetrics from
+// every stored PR, so a run that fetched fewer PRs never erases earlier days.
+async function processRepoPRs(repoGithubId: number, prs: PullRequestSummary[]) {
+  const repo = await prisma.sampledRepo.findUnique({
+    where: { githubId: repoGithubId },
+  });
+  if (!repo) return;
+
+  for (let i = 0; i < prs.length; i += ITEM_WRITE_BATCH_SIZE) {
+    await prisma.$transaction(
+      prs.slice(i, i + ITEM_WRITE_BATCH_SIZE).map((pr) => {
+        const item = {
+          number: pr.number,
+          title: pr.title,
+          authorLogin: pr.authorLogin,
+          authorType: pr.authorType,
+          isBot: isBotActivity(pr),
+          openedAt: new Date(pr.createdAt),
+          mergedAt: pr.mergedAt ? new Date(pr.mergedAt) : null,
+          closedAt: pr.closedAt ? new Date(pr.closedAt) : null,
+          isDraft: pr.isDraft,
+          additions: pr.additions,
+          deletions: pr.deletions,
+          commentCount: pr.commentCount,
+          reviewCount: pr.reviewCount,
+          changesRequestedCount: pr.changesRequestedCount,
+          labels: JSON.stringify(pr.labels),
+        };
+        return prisma.pullRequest.upsert({
+          where: { nodeId: pr.id },
+          create: { nodeId: pr.id, repoId: repo.id, ...item },
+          update: item,
+        });
+      })
+    );
+  }
+
+  await rebuildRepoPRMetrics(repo);
+}
+
+async function rebuildRepoPRMetrics(repo: { id: string; primaryLanguage: string }) {
+  const items = await prisma.pullRequest.findMany({ where: { repoId: repo.id } });
+
+  // Bot and human PRs get separate day rows so /api/metrics can leave bots out
+  const rows = [false, true].flatMap((isBot) => {
+    const dayMap = aggregatePRsByDay(
+      items
+        .filter((item) => item.isBot === isBot)
+        .map((item) => ({
+          createdAt: item.openedAt.toISOString(),
+          mergedAt: item.mergedAt?.toISOString() ?? null,
+          closedAt: item.closedAt?.toISOString() ?? null,
+          additions: item.additions,
+          deletions: item.deletions,
+          reviewCount: item.reviewCount,
+          changesRequestedCount: item.changesRequestedCount,
+        }))
+    );
+    return Array.from(dayMap.entries()).map(([key, data]) => ({
+      date: new Date(`${key}T00:00:00.000Z`),
+      repoId: repo.id,
+      language: repo.primaryLanguage,
+      isBot,
+      ...toPRMetricsData(data),
+    }));
+  });
+
+  await prisma.$transaction([
+    prisma.pRMetrics.deleteMany({ where: { repoId: repo.id, userId: null } }),
+    prisma.pRMetrics.createMany({ data: rows }),
+  ]);
+  await markRollupDirty(rows.map((row) => row.date));
+}
+
+// Like rebuildRepoPRMetrics, keyed by user: `prs` are all of the user's PRs
+// opened since windowStart, so the user's day rows from then on are replaced.
+async function processUserPRs(
+  userId: string,
+  prs: PullRequestSummary[],
+  windowStart: Date
+) {
+  const rows = Array.from(aggregatePRsByDay(prs).entries()).map(([key, data]) => ({
+    date: new Date(`${key}T00:00:00.000Z`),
+    userId,
+    ...toPRMetricsData(data),
+  }));
+
+  await prisma.$transaction([
+    prisma.pRMetrics.deleteMany({
+      where: { userId, repoId: null, language: null, date: { gte: windowStart } },
+    }),
+    prisma.pRMetrics.createMany({ data: rows }),
+  ]);
+}
+
+// Like processRepoPRs: store issues as items, then rebuild daily IssueMetrics.
+async function processRepoIssues(repoGithubId: number, issues: IssueSummary[]) {
+  const repo = await prisma.sampledRepo.findUnique({
+    where: { githubId: repoGithubId },
+  });
+  if (!repo) return;
+
+  for (let i = 0; i < issues.length; i += ITEM_WRITE_BATCH_SIZE) {
+    await prisma.$transaction(
+      issues.slice(i, i + ITEM_WRITE_BATCH_SIZE).map((issue) => {
+        const item = {
+          number: issue.number,
+          title: issue.title,
+          authorLogin: issue.authorLogin,
+          authorType: issue.authorType,
+          isBot: isBotActivity(issue),
+          openedAt: new Date(issue.createdAt),
+          closedAt: issue.closedAt ? new Date(issue.closedAt) : null,
+          commentCount: issue.commentCount,
+          labels: JSON.stringify(issue.labels),
+        };
+        return prisma.issue.upsert({
+          where: { nodeId: issue.id },
+          create: { nodeId: issue.id, repoId: repo.id, ...item },
+          update: item,
+        });
+      })
+    );
+  }
+
+  await rebuildRepoIssueMetrics(repo);
+}
+
+async function rebuildRepoIssueMetrics(repo: { id: string; primaryLanguage: string }) {
+  const items = await prisma.issue.findMany({ where: { repoId: repo.id } });
+
+  const rows = [false, true].flatMap((isBot) => {
+    const dayMap = aggregateIssuesByDay(items.filter((item) => item.isBot === isBot));
+    return Array.from(dayMap.entries()).map(([key, data]) => ({
+      date: new Date(`${key}T00:00:00.000Z`),
+      repoId: repo.id,
+      language: repo.primaryLanguage,
+      isBot,
+      issuesOpened: data.opened,
+      issuesClosed: data.closed,
+      avgResolutionHrs:
+        data.resolutionCount > 0
+          ? data.resolutionHoursTotal / data.resolutionCount
+          : null,
+    }));
+  });
+
+  await prisma.$transaction([
+    prisma.issueMetrics.deleteMany({ where: { repoId: repo.id } }),
+    prisma.issueMetrics.createMany({ data: rows }),
+  ]);
+  await markRollupDirty(rows.map((row) => row.date));
+}
+
+function aggregateIssuesByDay(issues: Array<{ openedAt: Date; closedAt: Date | null }>) {
+  const dayMap = new Map<string, IssueDayAggregate>();
+
+  const addToDay = (
+    date: Date | null,
+    fn: (entry: IssueDayAggregate) => void
+  ) => {
+    if (!date) return;
+    const key = normalizeToDay(date.toISOString()).toISOString().slice(0, 10);
+    const entry =
+      dayMap.get(key) || {
+        opened: 0,
+        closed: 0,
+        resolutionHoursTotal: 0,
+        resolutionCount: 0,
+      };
+    fn(entry);
+    dayMap.set(key, entry);
+  };
+
+  for (const issue of issues) {
+    addToDay(issue.openedAt, (e) => { e.opened += 1; });
+
+    if (issue.closedAt) {
+      const closedAt = issue.closedAt;
+      addToDay(closedAt, (e) => {
+        e.closed += 1;
+        const hours =
+          (closedAt.getTime() - issue.openedAt.getTime()) / (1000 * 60 * 60);
+        if (Number.isFinite(hours)) {
+          e.resolutionHoursTotal += hours;
+          e.resolutionCount += 1;
+        }
+      });
+    }
+  }
+
+  return dayMap;
+}
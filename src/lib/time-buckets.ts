@@ -0,0 +1,101 @@
+import type { Granularity } from "@/types/metrics";
+
+// UTC time buckets for trend series. A bucket is keyed by its first day as
+// YYYY-MM-DD, which is also the `date` of its TimeSeriesDataPoint. Weeks start
+// on Monday; quarters on Jan/Apr/Jul/Oct 1.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+export function bucketStartUtc(date: Date, granularity: Granularity) {
+  const y = date.getUTCFullYear();
+  const m = date.getUTCMonth();
+  const d = date.getUTCDate();
+
+  switch (granularity) {
+    case "day":
+      return new Date(Date.UTC(y, m, d));
+    case "week":
+      return new Date(Date.UTC(y, m, d - ((date.getUTCDay() + 6) % 7)));
+    case "month":
+      return new Date(Date.UTC(y, m, 1));
+    case "quarter":
+      return new Date(Date.UTC(y, m - (m % 3), 1));
+    case "year":
+      return new Date(Date.UTC(y, 0, 1));
+  }
+}
+
+function nextBucketStartUtc(start: Date, granularity: Granularity) {
+  const y = start.getUTCFullYear();
+  const m = start.getUTCMonth();
+  const d = start.getUTCDate();
+
+  switch (granularity) {
+    case "day":
+      return new Date(Date.UTC(y, m, d + 1));
+    case "week":
+      return new Date(Date.UTC(y, m, d + 7));
+    case "month":
+      return new Date(Date.UTC(y, m + 1, 1));
+    case "quarter":
+      return new Date(Date.UTC(y, m + 3, 1));
+    case "year":
+      return new Date(Date.UTC(y + 1, 0, 1));
+  }
+}
+
+function toKey(date: Date) {
+  return `${date.getUTCFullYear()}-${pad2(date.getUTCMonth() + 1)}-${pad2(date.getUTCDate())}`;
+}
+
+export function bucketKey(date: Date, granularity: Granularity) {
+  return toKey(bucketStartUtc(date, granularity));
+}
+
+// Keys of every bucket overlapping [start, end], in order
+export function bucketRange(start: Date, end: Date, granularity: Granularity) {
+  const keys: string[] = [];
+  let cursor = bucketStartUtc(start, granularity);
+  while (cursor <= end) {
+    keys.push(toKey(cursor));
+    cursor = nextBucketStartUtc(cursor, granularity);
+  }
+  return keys;
+}
+
+// Calendar days of the bucket that fall inside [start, end], so per-day rates
+// of the first and last bucket aren't diluted by days outside the range
+export function bucketDaysInRange(
+  key: string,
+  granularity: Granularity,
+  start: Date,
+  end: Date
+) {
+  const bucketStart = new Date(`${key}T00:00:00.000Z`);
+  const bucketEnd = nextBucketStartUtc(bucketStart, granularity);
+  const from = Math.max(bucketStart.getTime(), bucketStartUtc(start, "day").getTime());
+  const to = Math.min(bucketEnd.getTime(), bucketStartUtc(end, "day").getTime() + DAY_MS);
+  return Math.max(0, Math.round((to - from) / DAY_MS));
+}
+
+// SQLite expression giving the bucket key of a DateTime column stored as ms
+export function bucketSqlExpr(column: string, granularity: Granularity) {
+  const day = `datetime(${column}/1000, 'unixepoch')`;
+
+  switch (granularity) {
+    case "day":
+      return `strftime('%Y-%m-%d', ${day})`;
+    case "week":
+      return `date(${day}, 'weekday 0', '-6 days')`;
+    case "month":
+      return `strftime('%Y-%m-01', ${day})`;
+    case "quarter":
+      return `printf('%s-%02d-01', strftime('%Y', ${day}), ((CAST(strftime('%m', ${day}) AS INTEGER) - 1) / 3) * 3 + 1)`;
+    case "year":
+      return `strftime('%Y-01-01', ${day})`;
+  }
+}
@@ -0,0 +1,187 @@
+import { bucketKey } from "./time-buckets";
+import type {
+  Granularity,
+  TimeSeriesDataPoint,
+  TimeSeriesValues,
+  TrendVariant,
+} from "@/types/metrics";
+
+// Smoothed and calendar-adjusted variants of trend series, attached to each
+// point as `variants` so charts can switch between them without refetching.
+// Every numeric field (value, quantiles, per-tier breakdowns) is transformed
+// independently, over the full bucket axis of the requested range.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCALAR_FIELDS = ["value", "p25", "p50", "p75"] as const;
+const RECORD_FIELDS = ["byLanguage", "byTier", "byTierP25", "byTierP50", "byTierP75"] as const;
+
+type Column = Array<number | undefined>;
+
+// Seasonal cycle per granularity: its length in buckets and a bucket's position in it
+const SEASONS: Record<
+  Exclude<Granularity, "year">,
+  { length: number; position: (date: Date) => number }
+> = {
+  day: { length: 7, position: (date) => date.getUTCDay() },
+  week: {
+    length: 52,
+    position: (date) =>
+      Math.min(
+        51,
+        Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / (7 * DAY_MS))
+      ),
+  },
+  month: { length: 12, position: (date) => date.getUTCMonth() },
+  quarter: { length: 4, position: (date) => Math.floor(date.getUTCMonth() / 3) },
+};
+
+function toDate(key: string) {
+  return new Date(`${key}T00:00:00.000Z`);
+}
+
+function rollingMean(column: Column, window: number): Column {
+  return column.map((_, i) => {
+    if (i + 1 < window) return undefined;
+    const slice = column.slice(i + 1 - window, i + 1);
+    if (slice.some((v) => v === undefined)) return undefined;
+    return (slice as number[]).reduce((sum, v) => sum + v, 0) / window;
+  });
+}
+
+// Days and weeks compare with 52 weeks earlier so weekdays line up
+function yearEarlierKey(key: string, granularity: Granularity) {
+  const date = toDate(key);
+  if (granularity === "day" || granularity === "week") {
+    return bucketKey(new Date(date.getTime() - 364 * DAY_MS), granularity);
+  }
+  return bucketKey(
+    new Date(Date.UTC(date.getUTCFullYear() - 1, date.getUTCMonth(), date.getUTCDate())),
+    granularity
+  );
+}
+
+function yearOverYear(column: Column, dates: string[], granularity: Granularity): Column {
+  const indexByDate = new Map(dates.map((date, i) => [date, i]));
+  return column.map((value, i) => {
+    const priorIndex = indexByDate.get(yearEarlierKey(dates[i], granularity));
+    const prior = priorIndex === undefined ? undefined : column[priorIndex];
+    if (value === undefined || prior === undefined || prior <= 0) return undefined;
+    return (value - prior) / prior;
+  });
+}
+
+// Classical multiplicative decomposition: each point's ratio to a centred moving
+// average over one cycle, averaged per seasonal position into factors that mean 1.
+// Needs two full cycles of data.
+function seasonallyAdjust(
+  column: Column,
+  dates: string[],
+  season: { length: number; position: (date: Date) => number }
+): Column {
+  const L = season.length;
+  if (column.filter((v) => v !== undefined).length < 2 * L) {
+    return column.map(() => undefined);
+  }
+
+  const half = Math.floor(L / 2);
+  const centredMean = (i: number) => {
+    if (i - half < 0 || i + half >= column.length) return undefined;
+    const slice = column.slice(i - half, i + half + 1);
+    if (slice.some((v) => v === undefined)) return undefined;
+    const values = slice as number[];
+    // Even cycles use a 2xL average: half weight on both ends
+    const sum =
+      L % 2 === 0
+        ? values.reduce((acc, v) => acc + v, 0) - (values[0] + values[values.length - 1]) / 2
+        : values.reduce((acc, v) => acc + v, 0);
+    return sum / L;
+  };
+
+  const positions = dates.map((date) => season.position(toDate(date)));
+  const ratios = new Map<number, number[]>();
+  column.forEach((value, i) => {
+    const mean = centredMean(i);
+    if (value === undefined || mean === undefined || mean <= 0) return;
+    const list = ratios.get(positions[i]) || [];
+    list.push(value / mean);
+    ratios.set(positions[i], list);
+  });
+
+  const rawFactors = new Map<number, number>();
+  for (const [position, list] of ratios) {
+    rawFactors.set(position, list.reduce((acc, r) => acc + r, 0) / list.length);
+  }
+  const factorMean =
+    Array.from(rawFactors.values()).reduce((acc, f) => acc + f, 0) / (rawFactors.size || 1);
+
+  return column.map((value, i) => {
+    const factor = rawFactors.get(positions[i]);
+    if (value === undefined || factor === undefined || factor <= 0 || factorMean <= 0) {
+      return undefined;
+    }
+    return value / (factor / factorMean);
+  });
+}
+
+// buckets: every bucket key of the requested range, so buckets missing from the
+// series (no rows, or a null average) stay gaps instead of making their
+// neighbours look adjacent
+export function withTrendVariants(
+  series: TimeSeriesDataPoint[],
+  buckets: string[],
+  granularity: Granularity,
+  rollingWindow: number
+): TimeSeriesDataPoint[] {
+  if (series.length === 0) return series;
+
+  const dates = Array.from(new Set([...buckets, ...series.map((point) => point.date)])).sort();
+  const slotByDate = new Map(dates.map((date, i) => [date, i]));
+  const slots: Array<TimeSeriesDataPoint | undefined> = dates.map(() => undefined);
+  for (const point of series) slots[slotByDate.get(point.date)!] = point;
+
+  const transforms: Partial<Record<TrendVariant, (column: Column) => Column>> = {
+    rolling: (column) => rollingMean(column, rollingWindow),
+    yoy: (column) => yearOverYear(column, dates, granularity),
+  };
+  if (granularity !== "year") {
+    const season = SEASONS[granularity];
+    transforms.seasonal = (column) => seasonallyAdjust(column, dates, season);
+  }
+
+  const variantsBySlot = slots.map(
+    (): Partial<Record<TrendVariant, Partial<TimeSeriesValues>>> => ({})
+  );
+
+  for (const [variant, transform] of Object.entries(transforms) as Array<
+    [TrendVariant, (column: Column) => Column]
+  >) {
+    const outputs = slots.map((): Partial<TimeSeriesValues> => ({}));
+
+    for (const field of SCALAR_FIELDS) {
+      if (!series.some((point) => point[field] !== undefined)) continue;
+      transform(slots.map((point) => point?.[field])).forEach((value, i) => {
+        if (value !== undefined) outputs[i][field] = value;
+      });
+    }
+
+    for (const field of RECORD_FIELDS) {
+      const keys = new Set(series.flatMap((point) => Object.keys(point[field] ?? {})));
+      for (const key of keys) {
+        transform(slots.map((point) => point?.[field]?.[key])).forEach((value, i) => {
+          if (value === undefined) return;
+          outputs[i][field] = { ...outputs[i][field], [key]: value };
+        });
+      }
+    }
+
+    outputs.forEach((output, i) => {
+      if (output.value !== undefined) variantsBySlot[i][variant] = output;
+    });
+  }
+
+  return series.map((point) => ({
+    ...point,
+    variants: variantsBySlot[slotByDate.get(point.date)!] as TimeSeriesDataPoint["variants"],
+  }));
+}
@@ -12,8 +12,25 @@ export interface TimeSeriesDataPoint {
   byTierP25?: Record<string, number>;
   byTierP50?: Record<string, number>;
   byTierP75?: Record<string, number>;
+  // Bootstrap confidence interval of the mean (resampling users)
+  ciLower?: number;
+  ciUpper?: number;
+  byTierCiLower?: Record<string, number>;
+  byTierCiUpper?: Record<string, number>;
+  // Server-computed variants of the same fields (src/lib/trend-variants.ts);
+  // missing where the variant is undefined, e.g. before a full rolling window
+  variants?: Partial<Record<TrendVariant, TimeSeriesValues>>;
 }
 
+export type TimeSeriesValues = Omit<TimeSeriesDataPoint, "date" | "variants">;
+
+// rolling: trailing mean over rollingWindow points
+// yoy: relative change vs the same bucket a year earlier (0.1 = +10%)
+// seasonal: divided by the average seasonal factor of its month/quarter/week/weekday
+export const TREND_VARIANTS = ["rolling", "yoy", "seasonal"] as const;
+
+export type TrendVariant = (typeof TREND_VARIANTS)[number];
+
 // Global metrics summary
 export interface GlobalMetrics {
   // Commit metrics
@@ -48,16 +65,29 @@ export interface TrendData {
   activeDayShare: TimeSeriesDataPoint[];
   contributionsPerActiveDay: TimeSeriesDataPoint[];
   linesOfCode: TimeSeriesDataPoint[];
+  // Lines per commit by sampled users in sampled repos (from contributor stats)
+  userLinesOfCode: TimeSeriesDataPoint[];
+  // Mean per-repo Herfindahl index of monthly commit shares across contributors
+  contributorConcentration: TimeSeriesDataPoint[];
   prMergeTime: TimeSeriesDataPoint[];
+  // Review rounds and lines changed (additions + deletions) per opened PR
+  prReviewCycles: TimeSeriesDataPoint[];
+  prSize: TimeSeriesDataPoint[];
   issueResolution: TimeSeriesDataPoint[];
+  // Contribution types (yearly, per user per day) from contributionsCollection
+  commitContributions: TimeSeriesDataPoint[];
+  pullRequestContributions: TimeSeriesDataPoint[];
+  reviewContributions: TimeSeriesDataPoint[];
+  issueContributions: TimeSeriesDataPoint[];
 }
 
-// Filter options
+// Filter options (query params of GET /api/metrics, validated in src/lib/metrics-filters.ts)
 export interface MetricsFilters {
   startDate?: string;
   endDate?: string;
-  language?: string;
-  userTier?: "top" | "mid" | "casual" | "all";
+  language?: TrackedLanguage | "all";
+  userTier?: UserTier | "all";
+  granularity?: Granularity;
 }
 
 // User productivity summary
@@ -82,16 +112,50 @@ export interface RepoStats {
   avgIssueResolutionTime: number | null;
 }
 
+// Progress of a single background sync job
+export interface SyncJobProgress {
+  id: string;
+  jobType: string;
+  status: string;
+  phase: "refresh" | "prs" | "users" | "repos" | "stats" | "done" | null;
+  currentBand: number | null;
+  totalBands: number | null;
+  usersDone: number;
+  reposDone: number;
+  itemsProcessed: number;
+  // Repos whose contributor stats GitHub was still computing; re-polled next job
+  statsPending: number | null;
+  // Repos dropped after STATS_MAX_ATTEMPTS polls without stats
+  statsAbandoned: number | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  errorMessage: string | null;
+  resumable: boolean;
+}
+
 // Sync job status
 export interface SyncStatus {
   lastSyncAt: string | null;
   isRunning: boolean;
+  currentJob: SyncJobProgress | null;
   usersTracked: number;
   reposTracked: number;
   rateLimitStatus: {
     rest: { remaining: number; limit: number; resetAt: string };
     search: { remaining: number; limit: number; resetAt: string };
     graphql: { remaining: number; limit: number; resetAt: string };
+    // Per-token budgets when several tokens are configured via GITHUB_TOKENS
+    tokens?: Array<{
+      label: string;
+      disabled: boolean;
+      // Set while a secondary rate limit has parked this token
+      pausedUntil: string | null;
+      rest: { remaining: number; limit: number; resetAt: string };
+      search: { remaining: number; limit: number; resetAt: string };
+      graphql: { remaining: number; limit: number; resetAt: string };
+    }>;
+    // Set while secondary rate limits have parked every token
+    pausedUntil?: string | null;
   };
 }
 
@@ -110,3 +174,13 @@ export const TRACKED_LANGUAGES = [
 ] as const;
 
 export type TrackedLanguage = (typeof TRACKED_LANGUAGES)[number];
+
+// Follower-based user tiers
+export const USER_TIERS = ["top", "mid", "casual"] as const;
+
+export type UserTier = (typeof USER_TIERS)[number];
+
+// Bucket size of trend series; each point's date is the first day of its bucket
+export const GRANULARITIES = ["day", "week", "month", "quarter", "year"] as const;
+
+export type Granularity = (typeof GRANULARITIES)[number];
@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+// End-to-end sync against recorded GitHub responses and a throwaway SQLite DB.
+// The fixtures in fixtures/replay are captured by running this file with
+// GITHUB_TRANSPORT=record and a GITHUB_TOKEN (`npm run test:record`), which
+// performs the same syncs against the live API.
+
+const FIXTURES_DIR = path.join(process.cwd(), "fixtures", "replay");
+const recording = process.env.GITHUB_TRANSPORT === "record";
+const hasFixtures = existsSync(path.join(FIXTURES_DIR, "session.json"));
+
+// Small enough to record in a few minutes, large enough to page
+const REPO_SYNC = { languageCount: 1, reposPerLanguage: 2, minStars: 20000 };
+const USER_BAND = { tier: "top" as const, minFollowers: 10000, maxFollowers: null, target: 2 };
+const AI_SIGNAL_SYNC = { maxRepoPages: 2, perPage: 20 };
+
+interface Fixture {
+  request: { method: string; url: string; body: string | null };
+  responses: Array<{ status: number; headers: Record<string, string>; body: string }>;
+}
+
+function readFixtures(): Fixture[] {
+  return readdirSync(FIXTURES_DIR)
+    .filter((name) => name.endsWith(".json") && name !== "session.json")
+    .map((name) => JSON.parse(readFileSync(path.join(FIXTURES_DIR, name), "utf8")) as Fixture);
+}
+
+function graphqlRequestBody(fixture: Fixture) {
+  if (!fixture.request.body) return null;
+  return JSON.parse(fixture.request.body) as {
+    query: string;
+    variables: Record<string, unknown>;
+  };
+}
+
+const skip =
+  !recording && !hasFixtures && "no fixtures in fixtures/replay; record them with npm run test:record";
+
+describe("sync replay", { skip }, () => {
+  let dbDir: string;
+  let prisma: typeof import("@/lib/prisma").prisma;
+  let sync: typeof import("@/lib/sync");
+  let adoption: typeof import("@/lib/adoption");
+  let github: typeof import("@/lib/github");
+  let transport: typeof import("@/lib/github-transport");
+
+  before(async () => {
+    if (recording) rmSync(FIXTURES_DIR, { recursive: true, force: true });
+    dbDir = mkdtempSync(path.join(os.tmpdir(), "sync-replay-"));
+
+    // Read by the modules below when they load
+    process.env.DATABASE_URL = `file:${path.join(dbDir, "replay.db")}`;
+    process.env.GITHUB_TRANSPORT = recording ? "record" : "replay";
+    process.env.GITHUB_FIXTURES_DIR = FIXTURES_DIR;
+    process.env.DISABLE_API_CACHE = "true";
+
+    execFileSync("npx", ["prisma", "migrate", "deploy"], { env: process.env, stdio: "ignore" });
+
+    ({ prisma } = await import("@/lib/prisma"));
+    sync = await import("@/lib/sync");
+    adoption = await import("@/lib/adoption");
+    github = await import("@/lib/github");
+    transport = await import("@/lib/github-transport");
+  });
+
+  after(async () => {
+    await prisma?.$disconnect();
+    if (dbDir) rmSync(dbDir, { recursive: true, force: true });
+  });
+
+  it("syncs repos, pages their pull requests and waits out 202 stats", async () => {
+    const historyFromYear = transport.githubNow().getUTCFullYear();
+    const synced = await sync.syncRepos({ ...REPO_SYNC, historyFromYear });
+    const { stillPending } = await sync.retryPendingRepoStats({ windowMs: 10 * 60_000 });
+
+    assert.equal(synced, REPO_SYNC.reposPerLanguage);
+    assert.equal(stillPending, 0);
+    if (recording) return;
+
+    const fixtures = readFixtures();
+    const since = Date.UTC(historyFromYear, 0, 1);
+    const repos = await prisma.sampledRepo.findMany();
+    let pagedRepos = 0;
+
+    for (const repo of repos) {
+      // Pages of the repo PR query, newest first; the sync keeps PRs opened since Jan 1
+      const pages = fixtures.filter((fixture) => {
+        const body = graphqlRequestBody(fixture);
+        return (
+          body?.query.includes("pullRequests(first") &&
+          body.variables.owner === repo.owner &&
+          body.variables.name === repo.name
+        );
+      });
+      if (pages.length > 1) pagedRepos++;
+
+      const expected = new Set<string>();
+      for (const page of pages) {
+        const data = JSON.parse(page.responses[0].body) as {
+          data: { repository: { pullRequests: { nodes: Array<{ id: string; createdAt: string } | null> } } };
+        };
+        for (const node of data.data.repository.pullRequests.nodes) {
+          if (node && Date.parse(node.createdAt) >= since) expected.add(node.id);
+        }
+      }
+      assert.equal(
+        await prisma.pullRequest.count({ where: { repoId: repo.id } }),
+        expected.size,
+        `${repo.fullName} pull requests`
+      );
+      assert.ok(
+        (await prisma.commitMetrics.count({ where: { repoId: repo.id, userId: null } })) > 0,
+        `${repo.fullName} has no commit metrics`
+      );
+    }
+    assert.ok(pagedRepos > 0, "no repo needed a second page of pull requests");
+
+    // A 202 answer is served first, then the stats the re-poll stored
+    const pendingStats = fixtures.filter(
+      (fixture) =>
+        fixture.request.url.endsWith("/stats/contributors") &&
+        fixture.responses[0].status === 202 &&
+        fixture.responses.some((response) => response.status === 200)
+    );
+    assert.ok(pendingStats.length > 0, "no contributor stats came back 202; record again");
+    assert.equal(await prisma.pendingRepoStats.count(), 0);
+  });
+
+  it("syncs a user band with contribution calendars and yearly totals", async () => {
+    const synced = await sync.syncUsers(42, [USER_BAND], { perPage: 5, pagesPerOrder: 1 });
+    if (recording) return;
+
+    const users = await prisma.sampledUser.findMany();
+    assert.equal(users.length, synced);
+    assert.ok(synced > 0, "no user passed the baseline gate");
+    for (const user of users) {
+      assert.equal(user.tier, USER_BAND.tier);
+      assert.ok(
+        (await prisma.userContributionMetrics.count({ where: { userId: user.id } })) > 0,
+        `${user.username} has no contribution days`
+      );
+      assert.ok(
+        (await prisma.userContributionTotals.count({ where: { userId: user.id } })) > 0,
+        `${user.username} has no yearly totals`
+      );
+    }
+  });
+
+  it("scans every sampled repo for AI signals", async () => {
+    const result = await adoption.syncAISignals(AI_SIGNAL_SYNC);
+    assert.equal(result.reposScanned, await prisma.sampledRepo.count());
+  });
+
+  it("takes rate limit state from the recorded headers", { skip: recording }, () => {
+    const recorded = { core: new Set<number>(), search: new Set<number>() };
+    for (const fixture of readFixtures()) {
+      for (const response of fixture.responses) {
+        const resource = response.headers["x-ratelimit-resource"];
+        const remaining = Number(response.headers["x-ratelimit-remaining"]);
+        if ((resource === "core" || resource === "search") && Number.isFinite(remaining)) {
+          recorded[resource].add(remaining);
+        }
+      }
+    }
+
+    const status = github.getRateLimitStatus();
+    assert.ok(recorded.core.has(status.rest.remaining), `rest remaining ${status.rest.remaining}`);
+    assert.ok(
+      recorded.search.has(status.search.remaining),
+      `search remaining ${status.search.remaining}`
+    );
+  });
+});